@@ -0,0 +1,151 @@
+/**
+ * Insert effects for tracks: built-in presets, user-supplied audio nodes and node factories.
+ */
+
+export type TrackEffectPreset =
+  /** Three-band EQ, gains in dB */
+  | { type: 'eq'; low?: number; mid?: number; high?: number }
+  | { type: 'compressor'; threshold?: number; knee?: number; ratio?: number; attack?: number; release?: number }
+  | { type: 'highpass'; frequency?: number; q?: number }
+
+/**
+ * An effect in a track's chain.
+ * Audio nodes can only be used in the context they were created in,
+ * so they are copied for the export and for the other clips of a lane.
+ * Only the common node types can be copied, e.g. not an AudioWorkletNode.
+ * A factory is called for every context instead.
+ */
+export type TrackEffect = AudioNode | TrackEffectPreset | ((context: BaseAudioContext) => AudioNode)
+
+export function isEffectPreset(effect: TrackEffect): effect is TrackEffectPreset {
+  return !(effect instanceof AudioNode) && typeof effect !== 'function'
+}
+
+function createPreset(context: BaseAudioContext, preset: TrackEffectPreset): AudioNode[] {
+  switch (preset.type) {
+    case 'eq': {
+      const bands: Array<[BiquadFilterType, number, number]> = [
+        ['lowshelf', 250, preset.low ?? 0],
+        ['peaking', 1000, preset.mid ?? 0],
+        ['highshelf', 4000, preset.high ?? 0],
+      ]
+      return bands.map(([type, frequency, gain]) => {
+        const filter = context.createBiquadFilter()
+        filter.type = type
+        filter.frequency.value = frequency
+        filter.gain.value = gain
+        return filter
+      })
+    }
+
+    case 'compressor': {
+      const compressor = context.createDynamicsCompressor()
+      if (preset.threshold !== undefined) compressor.threshold.value = preset.threshold
+      if (preset.knee !== undefined) compressor.knee.value = preset.knee
+      if (preset.ratio !== undefined) compressor.ratio.value = preset.ratio
+      if (preset.attack !== undefined) compressor.attack.value = preset.attack
+      if (preset.release !== undefined) compressor.release.value = preset.release
+      return [compressor]
+    }
+
+    case 'highpass': {
+      const filter = context.createBiquadFilter()
+      filter.type = 'highpass'
+      filter.frequency.value = preset.frequency ?? 80
+      filter.Q.value = preset.q ?? Math.SQRT1_2
+      return [filter]
+    }
+  }
+}
+
+// Copy the common node types into another context, other nodes can't be copied
+function copyNode(context: BaseAudioContext, node: AudioNode): AudioNode | null {
+  if (node instanceof BiquadFilterNode) {
+    const copy = context.createBiquadFilter()
+    copy.type = node.type
+    copy.frequency.value = node.frequency.value
+    copy.Q.value = node.Q.value
+    copy.gain.value = node.gain.value
+    copy.detune.value = node.detune.value
+    return copy
+  }
+
+  if (node instanceof DynamicsCompressorNode) {
+    const copy = context.createDynamicsCompressor()
+    copy.threshold.value = node.threshold.value
+    copy.knee.value = node.knee.value
+    copy.ratio.value = node.ratio.value
+    copy.attack.value = node.attack.value
+    copy.release.value = node.release.value
+    return copy
+  }
+
+  if (node instanceof GainNode) {
+    const copy = context.createGain()
+    copy.gain.value = node.gain.value
+    return copy
+  }
+
+  if (node instanceof DelayNode) {
+    const copy = context.createDelay(node.delayTime.maxValue)
+    copy.delayTime.value = node.delayTime.value
+    return copy
+  }
+
+  if (node instanceof WaveShaperNode) {
+    const copy = context.createWaveShaper()
+    copy.curve = node.curve
+    copy.oversample = node.oversample
+    return copy
+  }
+
+  if (node instanceof ConvolverNode) {
+    const copy = context.createConvolver()
+    copy.normalize = node.normalize
+    copy.buffer = node.buffer
+    return copy
+  }
+
+  if (node instanceof StereoPannerNode) {
+    const copy = context.createStereoPanner()
+    copy.pan.value = node.pan.value
+    return copy
+  }
+
+  return null
+}
+
+/**
+ * Create the nodes of an effects chain, connected in series.
+ * With `useNodes`, audio nodes are used as they are, otherwise they are copied.
+ * A node that can't be copied is skipped and passed to `onSkip`, or throws without it.
+ */
+function createEffects(
+  context: BaseAudioContext,
+  effects: TrackEffect[],
+  useNodes: boolean,
+  onSkip?: (error: Error) => void,
+): AudioNode[] {
+  const nodes = effects.flatMap((effect) => {
+    if (typeof effect === 'function') return [effect(context)]
+    if (!(effect instanceof AudioNode)) return createPreset(context, effect)
+    if (useNodes && effect.context === context) return [effect]
+    const copy = copyNode(context, effect)
+    if (copy) return [copy]
+
+    const error = new Error(
+      `A ${effect.constructor.name} effect can't be copied to another audio context, pass a function that creates it instead`,
+    )
+    if (!onSkip) throw error
+    onSkip(error)
+    return []
+  })
+
+  nodes.forEach((node, i) => {
+    if (i > 0) nodes[i - 1].connect(node)
+  })
+
+  return nodes
+}
+
+export default createEffects
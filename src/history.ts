@@ -0,0 +1,71 @@
+/**
+ * Undo/redo stacks of reversible edit commands.
+ */
+
+export type HistoryCommand = {
+  undo: () => void
+  redo: () => void
+}
+
+class History {
+  private undoStack: HistoryCommand[] = []
+  private redoStack: HistoryCommand[] = []
+  private isApplying = false
+  private onChange: () => void
+
+  constructor(onChange: () => void) {
+    this.onChange = onChange
+  }
+
+  /** Record a command that has already been applied */
+  push(command: HistoryCommand) {
+    // Changes made while undoing or redoing are not new edits
+    if (this.isApplying) return
+    this.undoStack.push(command)
+    this.redoStack = []
+    this.onChange()
+  }
+
+  undo(): boolean {
+    const command = this.undoStack.pop()
+    if (!command) return false
+    this.apply(command.undo)
+    this.redoStack.push(command)
+    this.onChange()
+    return true
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop()
+    if (!command) return false
+    this.apply(command.redo)
+    this.undoStack.push(command)
+    this.onChange()
+    return true
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  clear() {
+    this.undoStack = []
+    this.redoStack = []
+    this.onChange()
+  }
+
+  private apply(fn: () => void) {
+    this.isApplying = true
+    try {
+      fn()
+    } finally {
+      this.isApplying = false
+    }
+  }
+}
+
+export default History
@@ -2,16 +2,24 @@
  * Multitrack is a super-plugin for creating a multitrack audio player.
  * Individual tracks are synced and played together.
  * They can be dragged to set their start position.
- * The top track is meant for dragging'n'dropping an additional track id (not a file).
+ * The top track is meant for dragging'n'dropping an additional track id,
+ * or an audio file when `dropFiles` is enabled.
  */
 
 import WaveSurfer, { type WaveSurferOptions } from 'wavesurfer.js'
-import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.js'
+import RegionsPlugin, { type Region } from 'wavesurfer.js/dist/plugins/regions.js'
 import TimelinePlugin, { type TimelinePluginOptions } from 'wavesurfer.js/dist/plugins/timeline.js'
 import EnvelopePlugin, { type EnvelopePoint, type EnvelopePluginOptions } from 'wavesurfer.js/dist/plugins/envelope.js'
 import EventEmitter from 'wavesurfer.js/dist/event-emitter.js'
 import { makeDraggable } from 'wavesurfer.js/dist/draggable.js'
 import WebAudioPlayer from './webaudio.js'
+import encodeWav from './wav.js'
+import History from './history.js'
+import createEffects, { isEffectPreset, type TrackEffect, type TrackEffectPreset } from './effects.js'
+import generatePeaks, { getPeaksForZoom, parsePeaks, type TrackPeaks } from './peaks.js'
+import formatTimecode, { type TimeFormat } from './timecode.js'
+
+export type { TrackEffect, TrackEffectPreset, TrackPeaks, TimeFormat }
 
 export type TrackId = string | number
 
@@ -22,8 +30,12 @@ type SingleTrackOptions = Omit<
 
 export type TrackOptions = {
   id: TrackId
+  /** The name shown in the track header */
+  title?: string
   url?: string
   peaks?: WaveSurferOptions['peaks']
+  /** Peaks from `getTrackPeaks`, to show the waveform without decoding the audio again */
+  peaksBundle?: TrackPeaks
   envelope?: boolean | EnvelopePoint[]
   draggable?: boolean
   startPosition: number
@@ -32,34 +44,160 @@ export type TrackOptions = {
   fadeInEnd?: number
   fadeOutStart?: number
   volume?: number
-  markers?: Array<{
-    time: number
-    label?: string
-    color?: string
-  }>
+  /** Stereo position from -1 (left) to 1 (right) */
+  pan?: number
+  muted?: boolean
+  solo?: boolean
+  /** Insert effects the track is routed through before the mix, in order */
+  effects?: TrackEffect[]
+  /** Markers at times relative to the start of the track's audio */
+  markers?: MarkerOptions[]
   intro?: {
     endTime: number
     label?: string
     color?: string
   }
   options?: SingleTrackOptions
+  /** Several audio clips in one lane, each with its own source, position, cues and fades */
+  clips?: ClipOptions[]
+}
+
+export type ClipOptions = Pick<
+  TrackOptions,
+  | 'id'
+  | 'url'
+  | 'peaks'
+  | 'peaksBundle'
+  | 'startPosition'
+  | 'startCue'
+  | 'endCue'
+  | 'fadeInEnd'
+  | 'fadeOutStart'
+  | 'volume'
+  | 'envelope'
+  | 'draggable'
+  | 'markers'
+>
+
+// A track as stored in the session, each clip of a lane is stored as a separate track
+type SessionTrack = TrackOptions & { lane?: TrackId }
+
+// The clips of a lane before or after an edit, to undo and redo it
+type LaneSnapshot = {
+  id: TrackId
+  index: number
+  settings: Pick<TrackOptions, 'title' | 'options' | 'draggable' | 'volume' | 'pan' | 'muted' | 'solo' | 'effects'>
+  clips: ClipOptions[]
+}
+
+// The fade of a track that a crossfade replaced, restored when the crossfade is removed
+type SavedFade = { points: EnvelopePoint[]; time: number | undefined }
+
+type LaneHeader = {
+  element: HTMLElement
+  mute: HTMLButtonElement
+  solo: HTMLButtonElement
+  volume: HTMLInputElement
 }
 
 export type MultitrackOptions = {
   container: HTMLElement
+  /** Scroll the tracks vertically within this height, only the lanes in view get a waveform */
+  height?: number
   minPxPerSec?: number
   cursorColor?: string
   cursorWidth?: number
   trackBackground?: string
   trackBorderColor?: string
+  /** The color of the loop range overlay */
+  loopColor?: string
+  /** Session markers shown on the timeline, at times from the start of the session */
+  markers?: MarkerOptions[]
+  markerColor?: string
+  /** The color of the selected time range, Shift+drag across the tracks to select one */
+  selectionColor?: string
+  /** Bar and beat lines to snap dragged tracks, cues and envelope points to */
+  grid?: MultitrackGrid
   rightButtonDrag?: boolean
   dragBounds?: boolean
+  /** Zoom with Ctrl+wheel and trackpad pinch, keeping the point under the pointer in place */
+  wheelZoom?: boolean
+  /** The zoom limits for wheel and pinch zoom, in pixels per second */
+  minZoom?: number
+  maxZoom?: number
+  /** Show an overview of the whole session above the tracks */
+  overview?: MultitrackOverviewOptions
   envelopeOptions?: EnvelopePluginOptions
   timelineOptions?: TimelinePluginOptions
+  /** How times are shown on the timeline and in the time readout, bars and beats follow the grid's tempo */
+  timeFormat?: TimeFormat
+  /** Frames per second of the `smpte` time format, defaults to 30 */
+  frameRate?: number
+  /** Show the current time and the session duration above the tracks */
+  timeReadout?: boolean
+  /**
+   * Playback engine. `media` (default) plays each track through its own media element and keeps them in sync.
+   * `webaudio` decodes every track into a buffer and schedules them sample-accurately on a shared AudioContext clock.
+   */
+  engine?: 'media' | 'webaudio'
+  /** Keep the pitch of the tracks when the playback rate changes, e.g. for speech */
+  preservesPitch?: boolean
+  /** Load audio files and URLs dropped onto empty tracks or onto the timeline */
+  dropFiles?: boolean
+  /** Create an equal-power crossfade when a dragged track overlaps another one, both tracks need an envelope */
+  crossfade?: boolean
+  crossfadeColor?: string
+  /** Show a header with the title and controls of each track, in a column of this width */
+  headerWidth?: number
+  /** Emit `meter` events while playing, and show a level meter beside each track */
+  meter?: MultitrackMeterOptions
+  /** Control the session with the media keys and the OS media controls, optionally showing this metadata */
+  mediaSession?: boolean | MediaMetadataInit
+}
+
+export type MultitrackOverviewOptions = {
+  height?: number
+  /** The color of the tracks, defaults to their wave color */
+  waveColor?: string
+  /** The color of the rectangle that shows the visible part of the session */
+  viewportColor?: string
+}
+
+export type MultitrackMeterOptions = {
+  /** Emit a `meter` event on every animation frame */
+  events?: boolean
+  /** Show a meter beside each track */
+  show?: boolean
+  width?: number
+  color?: string
+  /** The meter color when a track is clipping */
+  clipColor?: string
+}
+
+export type MultitrackGrid = {
+  /** Tempo in beats per minute */
+  bpm?: number
+  /** Beats per bar and the note value of a beat, defaults to 4/4 */
+  timeSignature?: [number, number]
+  /** A fixed interval in seconds, used instead of the tempo */
+  interval?: number
+  /** Snap to whole bars or to beats, defaults to beats */
+  snapTo?: 'bar' | 'beat'
+  /** Hold this key to move things freely, defaults to Alt */
+  bypassKey?: 'Alt' | 'Shift' | 'Control' | 'Meta'
+  barColor?: string
+  beatColor?: string
 }
 
 export type MultitrackEvents = {
   canplay: []
+  play: []
+  pause: []
+  /** The playback reached the end of the session and stopped */
+  finish: []
+  /** The user or the API moved the cursor */
+  seeking: [currentTime: number]
+  timeupdate: [currentTime: number]
   'start-position-change': [{ id: TrackId; startPosition: number }]
   'start-cue-change': [{ id: TrackId; startCue: number }]
   'end-cue-change': [{ id: TrackId; endCue: number }]
@@ -68,16 +206,154 @@ export type MultitrackEvents = {
   'envelope-points-change': [{ id: TrackId; points: EnvelopePoint[] }]
   'volume-change': [{ id: TrackId; volume: number }]
   'intro-end-change': [{ id: TrackId; endTime: number }]
+  'mute-change': [{ id: TrackId; muted: boolean }]
+  'solo-change': [{ id: TrackId; solo: boolean }]
+  'loop-change': [MultitrackLoop | null]
+  'selection-change': [MultitrackSelection | null]
+  'history-change': [{ canUndo: boolean; canRedo: boolean }]
+  loop: [MultitrackLoop]
+  'crossfade-change': [MultitrackCrossfade]
+  meter: [MultitrackLevels]
   drop: [{ id: TrackId }]
+  'track-added': [{ id: TrackId; lane: TrackId; startPosition: number; file: MultitrackFileInfo }]
+  'track-load-progress': [{ id: TrackId; progress: number }]
+  'track-error': [{ id: TrackId; error: Error }]
+  'track-peaks': [{ id: TrackId; peaks: TrackPeaks }]
+  /** A marker was added, moved, edited or removed */
+  'marker-change': [MultitrackMarker & { removed: boolean }]
+  'marker-click': [MultitrackMarker]
 }
 
 export type MultitrackTracks = Array<TrackOptions>
 
+/** Metadata of a dropped audio file */
+export type MultitrackFileInfo = {
+  name: string
+  type: string
+  size: number
+  duration: number
+  sampleRate: number
+  numberOfChannels: number
+}
+
+export type TrackLoadState = 'loading' | 'ready' | 'error'
+
+export type MultitrackTrackState = Omit<TrackOptions, 'peaks' | 'peaksBundle' | 'options' | 'effects'> & {
+  options?: Omit<SingleTrackOptions, 'media' | 'peaks' | 'plugins' | 'renderFunction'>
+  /** Only the built-in effects can be serialized */
+  effects?: TrackEffectPreset[]
+}
+
+/** A serializable snapshot of a whole session */
+export type MultitrackState = {
+  version: number
+  tracks: MultitrackTrackState[]
+  /** Zoom level in pixels per second */
+  zoom: number
+  currentTime: number
+  masterVolume: number
+  loop: MultitrackLoop | null
+  markers?: MultitrackMarker[]
+  /** The envelope points of a crossfade are generated, so the crossfades are saved instead */
+  crossfades?: MultitrackCrossfade[]
+}
+
+export type MultitrackLoop = {
+  start: number
+  end: number
+}
+
+/** A marker on a track or on the session timeline */
+export type MultitrackMarker = {
+  id: string
+  /** In seconds from the start of the session, or from the start of the track's audio for track markers */
+  time: number
+  label?: string
+  color?: string
+  /** The track of a track marker, session markers don't have one */
+  trackId?: TrackId
+}
+
+/** A marker without an id gets a generated one */
+export type MarkerOptions = Omit<MultitrackMarker, 'id' | 'trackId'> & { id?: string }
+
+/** A time range in one or more tracks */
+export type MultitrackSelection = {
+  start: number
+  end: number
+  /** The ids of the selected tracks, a track with clips is selected as a whole */
+  trackIds: TrackId[]
+}
+
+/** A crossfade from the end of one track into the start of another, removed when its length is 0 */
+export type MultitrackCrossfade = {
+  fadeOutId: TrackId
+  fadeInId: TrackId
+  start: number
+  length: number
+}
+
+/** Linear signal levels, a peak of 1 or more is clipping */
+export type MultitrackLevel = {
+  peak: number
+  rms: number
+  clipping: boolean
+}
+
+export type MultitrackLevels = {
+  master: MultitrackLevel
+  tracks: Array<MultitrackLevel & { id: TrackId }>
+}
+
+export type MultitrackMixerState = Array<{
+  id: TrackId
+  volume: number
+  pan: number
+  muted: boolean
+  solo: boolean
+  /** Whether the track is heard, taking solos into account */
+  audible: boolean
+}>
+
+export type MultitrackExportOptions = {
+  /** Sample rate of the rendered mix, defaults to the sample rate of the audio context */
+  sampleRate?: number
+  /** Number of output channels, defaults to 2 */
+  numberOfChannels?: number
+}
+
+export type MultitrackExportResult = {
+  buffer: AudioBuffer
+  blob: Blob
+}
+
 const silentWavBase64v1 = "UklGRiQAAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQAAAAAA//////////////////////////////////////////////////////////////////////8=";
 const silentWavBase64v2 = "UklGRigAAABXQVZFZm10IBIAAAABAAEARKwAAIhYAQACABAAAABkYXRhAgAAAAEA"; // https://github.com/katspaugh/wavesurfer.js/discussions/2774
 const placeholderUrl = "data:audio/wav;base64," + silentWavBase64v2;
 const webkitUrl = "data:audio/mpeg;base64,SUQzBABAAAAAQwAAAAwBIAULaBs3cUNPTU0AAAAtAAAAAAAAADEyOCBrYnBzLCA0NC4xIGtIeiwgZnJvbSAyNGJpdC00NGtoei53YXb/+5DEAAAAAAAAAAAAAAAAAAAAAABJbmZvAAAADwAAACgAAELvAAYGDAwTExMZGSAgICYmLCwsMzM5OTlAQEZGRkxMU1NTWVlgYGBmZmxsbHNzeXl5gICGhoaMjJOTk5mZoKCgpqasrKyzs7m5ucDAxsbGzMzT09PZ2eDg4Obm7Ozs8/P5+fn//wAAADlMQU1FMy45OHIBzQAAAAAAAAAAFIAkBXxiAACAAABC7yFVHpcAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5DEAAMUeaUUbDzLC3LBYga28AAAAlSM3pAQzKcuceOHACARFBiDjq3lpxS36vfv47AhiGKx4wKxWIYdbPHuTTs8mhjECBAhCCZMnd37tCIghEGIXd3Z5MncRERERBO7u7vfERERER3u7uyacREEIiP3J3d2TvmEIgwgEIf9yZMmTTxozfbRe9zwcnroPdtjtBNPXu++/tEREQm2Xv//5AghHjHPv44//wAM2v/z8x9nmH8EQI8AAAQBERipwZUnDvgYqfr7m44uh/yoQlxB46aHIoXFI2IEnkPiKM3lXGGOaS0S8y3BedJl9K9RTErGdkphnlktEfXaIMsSRqu2woTjA3i80PUZ57+sDEF/mZ21RZIEdqfxqx6u4se8sekWW2b1hah63eJp7EkqwZgbrtqtAy4V3aWDu31rG8WdfzazTGaY15dWtWZ7r2r5Kfzw77p6a3b5x6eNHl3bdM3vZ9Wk0z+JBj0fSsLnJG1K/iwmPFYLyE5RX8dpq7q56Wcq6Op2rbOsJxgeQlfFXsrmMjmdISzpiCmopmXHJwXGQAD/+5LEAAAYvXt1uY0CEqcu5ie60ABERz5bv97P+bbba7767+qrpXzMu5xp6w9PE6e2bzpjc3fwMyYMgEwx7G8jZHjAOz9vfy1hY31Y5rw5lA0nxx/VvDmPTDCFOQMkFipCAx5r//DedvTS0+kfVtO0xbVXHfccLGf6xtrRQ4lyAgGAgRZFDlj/73r7eHOdww3m3Jx3kYa3ZgcDtq/Xf1r97/7eGef/nrCxtL5o65H4bddDms2dFsrONfrXdZd3/P/fe4c5n//3vxuvOxaGp+BWGvVDcuh2VRKn0CgAAGAKrYgAswICkxIFcAWiaXB8YHgWAgpMAAHchHhtwIII0DkN2YRBDxjGDsDiA8ykJsP4jIT0eQshgwSYrHUaguwXYFtKJdHkZHzpKou5IIVqZ5qo1RWtbJqZ0WnjObIqpLZkmM7OtNlJMlddnunTNXQSXRZFa2TZbIoo9X3WtS9V1KVZ7myTUEnostF37s9aC0zIydJJSTGSJg0sBIuEgaWsIlv//MM/amIKaimZccnBcZAAAAAAAAAAAAAAAAAAAAAAAAAA//uSxAACFrmdIi880QrjLaRZ7bC4AUwDQBgcB0FgLDAOdXM4wANWtqhgIAIIlmAOAOIwHTAWC5CA4IciamEArRfxJxW4FAHDbRZ4lGSZfNOIqhfKBmaoLKQVvVBkP2tjewFW/b6PkTe2U54wC+mXAAAIgkmMDrVapNMPSM3rTzfGBCVOig6SRgrdz90te3387qCrbbd0uaoqwOErL/dmtHHRZrLRjMtF63YvIKfe7VacOzVNQ3zDDi4l+2P/d4l35yN+Rb5r+U0M3/RAzXIkAVEjARANMBxx8yzgKy8z/GFpSoV+jA6YQok4K0BvlkPtR3WHrdgWUSall7s3YLXYz8rIlI2euhjyYllahLPfMBJMuZayl2Tw/XIT9qaZI4VtDrY5UHVt3m4WDEstPvSibdPC6cD+tOTgkn7KHKtuB/Isra5zarx0reT9tVq2XDitnfOm28fUR3hW65evsRvyz777bzbNoY7Z7MO8utu9/3t+vrSFR5mJJpISICBkD0raSOVZxMQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAAAAAAAAP/7ksQAABVVVx5PMNEKuaokXe0kmQAGgFALjoBwcAISximYwAiJAIJ7kQGQ0B6s4YADMAUDciF9ir+vy1amlKHqlsEEEhJS5EuJoQCOqOBIFIR8+ajshtJUCN+BdSxarWqUpVHg52FlKK7H3+lk7JmwmbAyg3pA4qjmI6gxTIdcV5O6XHEApM9ESWCg9GKebc7ltS3xCITUmkl9bGOrXvO2C8P2Y4HASpLP+i97sx2evd/Nrzm7gNG6tVzJomRdiEEluSSkFADw6YB4DRgaMnmR4AWVgKKHmATt1Z7BBh1Yn1pOiVpKgcMzmjYJAppkQoyW1jKIR2TFGukx34TGEVQOEayUooGkaDkojiXfGaa6NKiimXEMNpk7KIvFcoiFiSlkZhs01Cay+K0pQ9RMaRt1bBMuKSqFDGbS6k7ohLMR9TtdZCubeKIitBNdhCbc0s0zGKiRsoaWBDTd816h0y0OzhX2NhqX5/eeZ77VkUxBTUUzLjk4LjIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5LEAAMTwTseb20lQ1064kn9sTgApJRASArXMAQFwq/KZYwCZQAg1MBGBEFu2vAUOw0BhyCak7cvtUeWHnEMEOPVAcMilI6GyjCSTFMwRDYuXJmak2tq6K8ZYg9emIcyXURRdabcMxbXdiJpSlVlC29I/iObv4Vs4zj8mmqrrTdqiVZJo7Beba6Lf0LUJ9WM2p1qsvL3DbikLXgyIVAGzkylTLyDJpZhhByy5FxFh4Rz7QAaAwDUAoDgDAwAEArMCWQLw4tYQGg0AMMAMAsEBTQRGGGQEh+gC/jGUEDqtZuwOmwxWBZbIWTQixBMgfeAVqtnUGYczlrjiOGxCORlYWWjWXQO0bjCxW7Cy2ufXe9jxkfKj0gJaGNXqJPq8iU2Jj58JTr0KXOOFkPrtidiPeWuVVrbVZu2r5e+t250uQD6FQ3aya7bjkK7WmWD+r94me+1b+xm/e05bmJ+21pB2udbLzTLSzab8zfmuglmt97GJdvDX4q9iZmLzv4XqIP0dWWerBHytWcIkxBTUUzLjk4LjIAAAAAAAAAAAAAAAAAA//uSxAADFz3XEg8ZO4LhuqJJ5hmoMFsBASCsMCUB4wcPLzUABXMB4AQskYIoKQ8D4tgKgFAAKYSG5f6Or7gSB55BC2m8IKxdloL1MudprqAGIyuOwJXeisvHCifWNVuy10oGy5qmrcc/U0WVHthwFaCcIpfYFHVMii85x+oNbMFlXya+V5h9/2Z6NRq6i0czMvvtvkNq41mayHx2OLazMz/t/Xxtqmn18r68qd3nnziSPkqXvJOZqimcixFtBFqfzXNilZ025axAMOPRGSw2ATIGB2Buj+IwUTCQ6HNEQFcwHAAkBZgOg4gYD1CJnRgEgtBA0sPNjAmG41+BBoy8nqDgnoR2QV4mHCpEPLh0T2glLKNtSCjQUYkYni0skxtXulqKOR3kAZFIQktjSyIZ5P2uciSKks40ptBSjDjYrSPQmji0YByi4Q1/vfSjpjpRkc/gUQ7sxcd/H3G7urX7P7ja8feb83/225i4FKxDLW8xDaYmi95dplSmtEtylsIBBZgMpK6WepMQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAAAP/7ksQAABYN0RZV5YALKEIkSz0QAAFsADAAGBiFaYqo2Zie1KmesPMYtQRQBAdCgIZgdgIgUAkQgAiEAAMDpVUhFaT21AFiQYaZaT1zpBNHwaSOg6iebolBCu9YmpLnKhF25ROHwXL77hdR7TV59ndPhWjE0QQQWPImzC+If65gcN5TfRV0idpJM61ZR9S6I29/tvub+2fH/c1HHcV/ds+a+fm2V3sdXLIv4m5h12spnqTqocpe21YWY55y3uc1RprByzrRyEAAAABg0Bemo4LIYIYwBiKmJmBOHWaKpEBhMAMFqjARASBAChg3gSkgChMBTkTAOzAQAqjmTZmThbFzBuWcpLOHQD2GhjmmRoiaJJJuFp4E+HwE2ZopJzOgqKXHwOweCDpOuaPf1EAF6IBiaitXW1SlO1XC2YWlkII/HGUCId0NqTavJIkSDhe8Zgc8TmQwqJ3/62/qHgrDgFKE3c0TL5HX9Xdl6/919xwDYJ4ZgWAmyuXiiMmRNE3c4kpJX///6Tpu3///zRMoE4mIKaimZccnBcZAAAAAAAAAAAD/+5LEAAAYwVltuY0SGtyh5Qe9gAAAAAAQjNZj0fDsZisQCA0gI6C5zLcJypbmOasfO754sWBxSxDv+ACR0Ux5JD+l1Vo6/puERgGBYShyeQwBD1J//5/khyZ5nQIBQiE0xyFPsgymr///g5QJQjHBTAhjWqDMJ3yh2keGOy7///8CnjYvDNNwzea0GFChQUz1amcbNN////4sxBT80hwQCjAhwAETSeld+sbmXed/H/////921yMDZTLt8jcYp4K3/df///////////zMMwFKYzawjT+we60Il8YAwqACYCAFpgOAlGGKL2auQI5hlBYmC0AiQADCoAxewwDwIjAZDQMCwCMFAWvrIygAMgAHf4skCXGdcYdumghlTyrSRWUWbEzqhjFLWoLL6/hS24nL4rOzchdJ/KSmpq1qUfzf4U9LnWz1hzvK1qmrWeYdsVq97lvCzfsYVtfhrudmxvtSZu437mX4VLXfx5+t48/96w13D/7dtCBpuYxU2eQetJgV7r2qErjJQ88wgBoOKPqb7QsmIKaimZccnBcZAAAAAAAA//uSxAADlglXJE9hK4s4uiNF5JuJAAaS6a7kgxgqk3AAYQEBIieYEYFql7WVGhUSo+rfpmLK1YUqWEPND5cZ/4ZooshDHmntrL0k285Bcmm/bEw6PRy/SPyDYpKJEKQpDiHAOQGBeSNmQu3riR1+GsKKJNLF6Qrk7CGTdtJIbg977OWuNCq1jr5R2DGqJGtqGVXagrsJSDSywiRdRE3kYwhDy+wq6hXves0nW3PbdjuwZbL2dO1tyobzxTWbubfa/6653q9EYAYDUeEgQQsrueZgDKxASASYDQMocE3C0KTA9G2MPEAMOASRlLZu4w1bgFAPTfZa69M7ruKfTna2EAKo6I7PO7btSmmlKnSM8Zur1glrT/LqWS70BMkWrK5FK7q/nGmIdh+O0Mds1ZSrJ5NMyqKeiMSEIjB0ZAl2NFlRaj7SxM/CkxpbGolgQ4iTOhZMxihrlx07qjUBM4ahFp8815fYyvm5mv8b4axyKOY9ROlY7Z41375ta172k2JvN393XDOa3+FbRsxW+P2wyqXALSmIKaimZccnBcZAAAAAAP/7ksQAABThQSBPbYXCgCXlNe0wnAJXwwAQFmXDICAwcScKwBKrkDzLDYeVl9p6hekD5doTIUl4IxkYoHwespe2UlhEBNVbR1Y8A4pHZ6ue0/dZOFQjEJc2VGzR3D6hqvODpmt7LUkEr6zlZ5+zHnPrm3mTHDqyyOX4Oyvflompq9rVsurgo7uWlribBPuU+K1HoULvW5bWZ3Oi2nUQv2nbTJ59s8IENBU+vi5G69ZRBNEmjUiYc9xg0RGtAAgAIIBjbaAYAHLktzAWHTBUsKwzSh04hOaxaFIg3en6VWtw8NTozvBA4YrlhkliU7d1ZsD30pGVA/jJ7j+1+E+HWiyVdz244nUeLZq9ZKpS1OCpClStY0oYirEdI08f3eXOsMnUDJYrYs3haWISokO+uu36msUFOS3bMbmK55aZQsfM/H85eZ+IYGg2BhMsc0cFKfTWiUqVMm0/1sW9rExBTUUzLjk4LjIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5LEAAMXSc8WLzzNgmAj5E3tMKgBDAfBPMAMBoeAZMEdc0+jAZzAKAQIgCjA/A/IgLGNF5AaIsYu4ATfwCXtoFW+BRA/AzkJO5sMcUpRokvieQoki0SRWNrcZA7Nw6RlKSJSkAY1K0HQ1rT8nY4kQzLfRTlwyDkJOwokDc1J1LDIAZq+bPiCpLXOq51aaa5qCeb3zwJ80V5Ksg7IuStGVb2uc/3zWR3efu3u+mjv2bt/+zZjZj92i28s1fZ+43fUNjHaW01WUSh4Qk0CApOASdlYXItRZYEJtNjQD0OAAdMwLlEeNwgAvA3dG5x74RLaaG2rUV0MxSUZPUMgjWtipBe1j+zF1tDIsiGjPVonxN7Q7OZv22XsTV6uydQ8+vrdxcpMS8aouQFEdWG5qpPFL/XV65CdS577y5c3lH71sw4v2WfhjpA25XXIY52b2gGD1lBympULCv/6nv6S9EitNCzww4bIhRMQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//uSxAADEZ0jIm9pJUPEuuHJ/jE4ITdsYEgFl8BcA8gI9NcgBFsimaUBEndNwSy4uun7D71qHBhMCVTTfpUhRKGgpGidVrJGTda3IdeqioialcyzhO/EozID0H3H3qqSkOVOvodesrB7KFLmlE29fA1CVJm1jSqExUX2ywpTFYs0nX8r9XlSUhmwyH69pW6J6xOprXJZ/X+NM/E8Bsc0CRosAjADQG+YAQAQmAaAEpgGxDOajcA0gYAOTfMAqA7gMA9NjUBMHJ0Ds6MO1F2epar6YKmA2qRTPoAcNtoEi9KoapsymCpc88T5IYIp4nKYo1UQgKLz09uaFZeVpLcB2XDs9eXNtJo68iQGl2nDTnupic0c0gekzROL4LQQvnsbdFLhkf0dJS8fYHUyCrEFk7am2ZSfP6wsLF6EYnxukQ4FJ+kKZ8guGZwcqj0/NDhDeLBmVCmSiIIhLXKT8kFMlEQPAbkha8iM0J1w/WK6a9E8y5F6Rli8Z+04vpzG/527MNMpFBc8WHR8xEmdpUrwMHVGokxBTUUzLjk4LjIAAAAAAP/7ksQAAxeVpyIM+SFKoTrjieYZsDFlItjAAAeMCQiM1PgG2WRNDgxSMQ8swiB+imYmlOAiHLZadI8spCLJGbTQKFAQYXFZZhwIOQEaNQgHEahkVwNhhHhO5GjlFTJ7S85YovBvU5fJRWjcNcfZWj69+8lGW/clGVwg9mUfsZVfrxaVSSbMkxCcRniYRB8UD4MgkIRAKx4MhYbJB4MhYZLmCYhUNkoWBUHwwHQJCwOkAnHRSIiqA+hWXYciQ1sVk1GHsyjDXSlFKwO0nUWFakITUgX0GAcAsFwATAVAjMBwvU3TgH0ZHWKgHLkzzcEUhIIqXxp9QmWk4iip911DMX3XtHODTFYywIxaRapXnXiEBotftyUWnTkjyMJJWDEqNDI6maFJlqN7VZhMHGtYdCOfKRE9sORZb4frJUTV23Ddbc3X892bZdt2n9XLM01G4LzfzqxPNY5VRGybM/fvbv4/f73bPnzfU9vHlqbPutO+32pvslVZ7+vUGpiCmopmXHJwXGQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5LEAAIWxdUSTzDRAsq64ynklrgAWQEABQGAaMDwIcwFFhT1iBpAwADpCAFESBzSrdwwGQcwwNqHoYfOni8NpkwdBxmNMZ0HzKRY0WPSoEMdB5Ksa5clO42CJHezK2FskYjknOnLIpFm0WQ5FxgWU84XIyCjcPRaP6vtxamgDIZhHAUyp1QGQSzz02Qa6SObt+jZVFlBcY6SXLd2lz8Zqxoov93+nR3f9KfrPXq8/iz1bUX7BmXMqWIKeQJMecU1GiKnwemQKjKXRgkotuxIJoAABIgA4Cpxpw9Adl9JODQNiYC5050sAzkwP9mVS2tLZt3fo6SOYbdSxG794CycNpLH4rgs8qNVrhWDwpkTGBS/lgPMkh4kQVSEgM9g3bNEbzBZddhMuXplC0JDVEhZ2kipMxN4us9JNenLGkb/JKzjSV3tx3yuV6xabdUlXq4TWQiRVGj9oqjCTkQeRx4rrVLZuXky4xpFQ7qc4qch6KgpkIrmeiOOHsDBw5RVMQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//uSxAAD1t3XDg9tJYMcOuGB/TC4MNcOcwQACTA/BTEDbp+yA5g0BICC5jMckgyBKoxiHEyZxYIYY1OavL4dmT1rEw6ApEAbUAhXZG1D51FIzgoKIYhlCSv1BsJqKTWtOSDv3CdaPqarbpVvgnOectLxyFsIPa0dnHcyC+2vG4dOE/f8p5lZKlNlktqEr7cJ3GP+YV1dPpSgle3Ct9xb3Nkgh4ZUZIthnY3cjJtJ5Ft1Zoyqeu1tByFXEwaQubuCcpSVGiRiZETE7iBASgN5WA8mApASpgBI96aD8BGigAQVB5goo1BdRuwgpgP01luzIJVHIJnndlMHSKUWFrSqrAlMK7oRwuWRrCSPqX0yhG4idqppAqXpH2fsztElWmoVrjLLO3ZvCvU215qNNl4K3t8drOIVXJcmHOxyVN6bfKMPbl2FUTV4q883Ptbe2TNafbYKY5fKw26D1tXpu77DctbNIPpT47/0V3WNra6S3rb9NG7OrIeZYWsl9xtmV6uy2o/mli4Ymi1W2jHi5y2cl1OoSpiCmopmXHJwXGQAAAAAAP/7ksQAAhax1w4vJNEDFrqhke2wmBwIQciABoCgfARok9hgbxGAcu0wLgcwgCeC4iYAoPY0EVN0E862T6s/s0kGlUKS8Wy4MhJN6Nk+kQFXtlidZwZPXNCrHUvvwBBCBiJyBdikhRZITQAYxUsgqCrYTST50jjUrSdsacPOizu2YzS+tMt3Oy5z19121VsyLZcve3FM1LLxKUr2bzYluf09p6uoKfpllbSeGUaJTDrFppwLgLhZDTxSlpyEjhVhZoD0CCHBSKQWEoBwCAYZoKAsEKYHIO5glOYnzYD2FAEBCKGMCA1HpTpLjOWLU8dsj0fMLRBXHrC5dcnxryUqXDdetLSe6Uflzig4PjF8kHjjdy2ron9XG4weUvinFnUl1dZ/vfyeu2zdqCt+hvGvxZW3rdW5b6X5dV8/d21XMtPRz3PrGb3vsfQyx9LbnWanZ/s7nbsezscN1UNJm96Zdhm3VfabXMfrSOkcp9vFaiU9tsvtPLEsCyhyy85SA7beXmpUIz4lIacpLiylRJg6LxgmIKaimZccnBcZAAAAAAAAAAD/+5LEAAIXXdMQT2kkwvo64hq8wAABZAMCEKtEMwFAOTAaVFOmYE0uw3YzNwiDNJfcGbycNRS8FhfEQiEBC+ST1JJERlhETsPUlbap5dZjnWT0sUJukZ1GSoMVSzwWZlNnShHKTnRZTFKODUdRlUi4xUajZbG5ullSuElbWh6yO+TrkrUfGqnfbc5aaG61VIitNhEhxplUKDYiZRlC5ERKrXn+7j2ZPVUXo4vimLqJufLF9tKKyCWoJ/oXkpPqSSZgqGZB6aFdo033KCapmTZGIFlAMEwCwGgXmGuL6Y7q4ZzvC4GOkKYYSgDRgAgIJal/15AwCkIBWdGJzErremDBUmaMmKJnNjUtqmfVOONwXjSvIbR9WFDUwXjyCX32qwr/ZWGTEDfHdHfT1jd3PtMdlLTdac9e0VbxfXKzW7NZq/Rl607SG1MmzMt5mV232/I6T85s1yfmczLu3rNltOrm585tZpkzSu2nH8pr621XKza63KfdiuJYmmaR5LDzz22dWatMEqJK2eol6snIykmIKaimZccnBcZAAAAAAAAAAAAA//uSxAAAGNGbWbmKgFMXK623M8QKAAASOk1v2+4uAoFAYCmEkayQbJTFax9/5TIO/3/p0WaBIOBgdnSZlgYdB4NiQagRSlKd8DHgYA4nDQN7r8DN4beyFa6oG53OBtVYgZ7FIGZkABpZMf3u8DIwcBoPgM1HYDNgyAzOJwuD//xH4GIhYBjIYAYsBwDBbAwQHAMRAj//8DIoxAxKHwAheBigPAYYCwGFAABh8Aihg5T///yDn0DdMvkyK3GTJYi/////7iE4avFLilDRBIuGkzJ8Zg9////8aPPh8AAAoVHNeL+32+z5+oAhYPQfJobPS8jsu/nvHNriOt7V7ZihYGQwjzvL5lYmmE10bLGWt7+v0wcWjNw9OGswzy/sLN2zlzvmfwQYDMxnk+GLAoYhGmdnuseWNbyMIhIgCbDBkBKzsVvZcq9y+3vDLiSyshhEKGJxoAAuDhCmD3D6uWW9d/f//HlsVE5izyaKDqRP45Zb1+X91l39/nyVQ0/1WMwzEn+jWMp//5z9fz///w1////KflMZrU1NjjVrU1Nqm//7wP/7ksQAA5bNVSY96QADEbljgeYPIQHAIApgKATmBUCYYY4xJpRAbmFAEaYKQC4KAMCgAgsBIpMBAKBweoKABX5D4jAEdIBmR9CjgewIJD2dMhnUyIjhFwj0WzAmzVyJGwfMSxoTJfJwsl8mEC2XywarW6k0C4o8YlzJxAnzMxNDpqaoLeaOtZ1mZZdXN3TTVW6kjNloO6Sbe6CCNA8gnVpItpraY1JKdFSzJNFlJpXfWl1slqczYBQuJGKipINuEW4AsFETo+nEp3YhpMCUEAQmAiAkF0MTi4BbEgDCEBQAhBmASAWHARCACMwBwNDDuABmFVocAgAaWyUACADQklABLsuzQxoaACiLTmGPQjjOdo3hbHOqYsjbrPxhgsHj6TA797wGs2Q0J9BUn2OklOH5tArJYiE1k6VE9FRe1PUO16yz7jdE59dOvYhh7Ng/P6F2etXL3irRSSIpBFnn5B1ZVCKcCI7hjyV7YdE/NzrKB0YhvJsy8GmRlRspn+d0zIqUpuLIszKIzm7DoQtGjBExBTUUzLjk4LjIAAAAAAAAAAD/+5LEAAIT/VkkbzDQyxQ646nmDvgAkJSJdjKhGBSYBhPJpoADsea2n+PAVsNHABSz4KCRhpnzJ1RPVLFsy+8kWc6WEMraZg51lLvwuCYWtORKMwxgJyIeLqJtV0HW4hJkjkDfmJNOf+CrA1JSgyMZWIoOW5KPCdUzTE5p01WCsAUIvAZltWOdPlMgFUatDpUs5jcNyZupqNpukKMD0kgxxCjwIzmvMWSdjz7S/Xj//7uw7uuyBABCbcABAMTWBQApgDIDm+kBWPADKPhcHgeAmWMulcpgFAAx5ojiNZgyHWauO4rs9iUeWFkEog+OzOWUSd+VMiMFRkdL7CfU1cQrr1stlp2L/ZZyMtpDmAcC0y+Zlw4ZVtW//bbLJiYyThPaQFzjrSR5yi2Bs95cfMtvnEKaFbNeOHn1RNcX4yzr06xD1ctUygYsXVipZhicnFNxYj5mJT50++dquscorp2LqZyfIdXv85fNNthRL82JDQ4kTVTElNwccIyYgpqKZlxycFxkAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//uSxAACFIXTIU8kVctRuuIF5hsoAAAgABJRgwFQDxIAowCwDDAQLVNbIBNjSSpKAwUAEQ4mgIANigA727TDQ45GpQ9s9UylE+81JY3TEzOCAiOJoUjKjMRkIVftOE8uP2Fye6Sz9H0Jkjeoul93w9QqoLNQOM41CXW8depm5bLq9x8WlNnJM02nP1roVLq4wttSpCtJpD1MiGIdJygKJC0Hc4Yf/t067aafM19nQj687GqVkQ8phQYAggBpBQKZgEhTmChAifsQK5gUAMF0DA8DDGgFUEwhAYMBEM4iBGeckAIaIn8nqxVQ9ElPncKgiRDQAkf46rkpl5vpXgB+XKcFt1wwJIYtyBAH8lElUh3PYnXFCViqkhmBdKnkcXHxJVj7j7/2ouapp0ZNRrNOHHMWZTL8pQ3sec5z5fvL0Tbllutmjb0olttZXTNWrxnrzJ6yugXRBVUq9wt7nLrYvGhSJoe8mtI6nVQ6Ho6IwrGmUU015iiRZ/Y84ifxxJtpIWijj8UFEAUXw0aB4KTEFNRTMuOTguMgAAAAAAAAAAAAAP/7ksQAApZ91xcvaQXDBrqiWeSjYAAAIBEZDAFAxMB0AIwFACDAQT7Oa4GVFALhDObQzequ6BE3Emb/RBucNtTmVlyeR4wzjFHVoZfadoAIPYLC7CwLxUFIPDx0ApDgFpaSKFieLYrEueWSHSCOQHtHIww0ayipEbXO4sPGxQyR9mM5o8hVlFHzZLQalZFZQlzkJGzNVUjjWLetj4Pq7r1yLbXWi2vjeuI/5164qri4ZLSl7i9j3ymZb2RIkkx7KNzTDc0/2GUxFCqAw0QOjAmAqMCcAYQMNneECmhkIwDgqD8TBPJbpyhQHkmC7fZ2mOuktF5JCr5p0CUle6xK9Gtwl/pbOzkSfaW6tNR5IoIvOFIo9IK8r3dtZwaQZzclkZij/OBJYxIyvabpxvYzxJGfmSORvOjpnxgpIrNY4q8jxtacvQWRGUSFhH6X+MRWck6WznCaJZpCxzc0hHHM3NVKaRTWi69rCdbwclw9JcYwdMUkzZjs2SiZKVYuczsQwTiw2nFh1OSKB+FkxBTUUzLjk4LjIAAAAAAAAAAAAAAAAAD/+5LEAAMWndcSLzzNgzG64cK8wAAODBhALMCYA0wCwdwIvOdjgEoUACL7mCeE4TACMMUyMAoB0WDWgWVCGGWTw4QJpDEO28o5joXm+aRxYaTrMBihOZoPID1gY4S/GjXmrmuRksPRzLOFwPJoQjCZOi6vfKJaeJUiurbZ58xp3VKJC9OpWaelybPR163d9iM/zGl2uvv+s7s/bWu/U7jtecvxDtrPkfXd/kR6O2ohE6UjVrNMQ5l5hKxckdOp3LNPJQeAVGDbtKQAYZAHpgLAXmIiSCZWcMp7qD9GVAOwJDQGAyBaAgZQwBMgAOMBYFYwTwBHxl6rYCYgIpHMCihR8KAvaMLkwzebHaxUEt9OLCQsXtCctEhqFDu3eiLYY1yF0by5g6tFvL51tXrt6WtCx0xbbG13f2QZeGq22Um8Ttsfn/pSOrF//emOFiOnZebTDal9tt9lnOx3WaZdd05lI/22Q9+wZSt3r0cyHIKYvUVuoWrW4cfliCJxb58rLzLDl3o0BZAeISGqP2WEUUK44PTskHlnExBTUUzLjk4LjIAA//uSxAAAGBWZZ7kaEBLksagHuPACAAAemmitez3nDoeF4HIwBspDTIGRxUvNDB6nAHAnBNF0QMkYBsQrd4GMGACoANkU22oB6oH70gY9MCJbRbbwAD4GvJjaABEgDF6C0FO3eAUDAMHgHKgM0EAscA0p3+7+wN8AeABt0BQmAcDAQAEt/7b/AOUgSLgBBAvAMIhhcLmxIBHn/+1kPDkAhCgNCwBi4AgoOhAOCgWDg3YGJgCgH////4dGDkAGFCi1AsDC3waIbwFzYWEA1CBYSAcTDFYbIAKIJgIAgwFmFowdPLosPWsl7lc3EtiEOA0VhAVTBUtLutbE2E2DiAalcxH8lhNS3EpDBTwmIhqEhDSaB0gNoByK6CpJaHCCpBSgLQcx1RpVbV7N1Kqa+8XVY29etd4fTYzrvab1B1Cs3RmFWobOwvWGLiFCV1LWhbrj0rb4hZ1BYd1rWLj4t/a2/mDFtmDWusW38b/zr/Ov8Wta3xbf9a1jZe1+IW8Vxvwt+2c0taFGzWCDITBWHOihMQU1FMy45OC4yAAAAAAAAAAAAP/7ksQAA5eVeSovYS2C0aslSeYbIQDRqZONAiGDajYbeYJ5gXgNkwEKKY0BAmAOgAGBWB+YQoIgOAXbx+BGYRnQUXMlKFCRty3Ei0PPkmsu5ohE4ONfUtXFQlznbWCZtMuM8b/UkNw7ATTmVObKcLghKiUTrIWEyUqgXVdpRbybIWIl211IgqZZPkUlEix9t6FPs9sq0qS4yrOM3IYfZecXZC7y4XlTp2xcnm7L++65ZdUyi27cnLM9sT2c7jW46dPq04XvtYQAZygCFQNHnVv8YVrL0AYgAEMD00A2KwfgwGpAQYEADa67AyAeYDQWo8BW266F+O+oahVGpQ8N59WzMBXpAiElQd4XEgiJvBK3xf1PWA2dQY9Lcm1CQrLW/EocDZySCcFkya2I5bP3divbu5h3++zMaFpbUQJjvE8vtr/ce4pMmJWVvPNQWfcgo1t4Ko6zRDclbmiDKfTkjSqj7Ze3rQTgiiSZO1zKnOTozTTjWNm4QHx4hRrkj67+Abatb4H//UxBTUUzLjk4LjIAAAAAAAAAAAAAAAAAAAAAAAD/+5DEAAMXVWkiDyR8is0rJIntpTgSAOEgBwQB4YLqPBy+gTCQHJdQmBOBwLRZkKgSmBAJqYPwCi5V9DABccWHRECwAi6S3ysDuRSAlip3JoslT1UNUIcFKBxHWXjBIqADXnlBlLXQcl0XhnGqsAzlkolkBM1j16Hofo5ZZ5Q2GpOh24ykmQKIDaIuA4tHhUThZreOgLSPHEsLpLW5xnWX8xlVZoYMUKA2ZqzKh5cRwzBiyMxiP6r9q2lvHnSM3vQbxdCrcsNmdC9KZ0Vu1qBYDP4uZI8AgIGCuZ0cHYCwOBNX8YE4Bg8BU3cYETEN894IYKqkwNdzX0l0XlhWI0U9LnGQWSqbdThrLWWoxZ0GSxyiUqkbqx2irSIDMAYAgnZiQ0SjQak2S2YLG12jJ+KcVZDax2yGFI5xDJKIUJhEobbJMjT7FKyoKinEJKdhLE0CODtSwwTSw8ik+oUXtimZtoVIIhAfWrMjB7SKtlOMfnduuWjHLbajSVnTo1yUd7maHSaYgpqKZlxycFxkAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5LEAAMUvS0gTz0vg263osX8MbABCkGgIo0RAMBQzw6fwFC34WATCgEg0AFHQsAaBA/QcWKuBnVC6TgEyM5Up5WtynNgPKkL2qgrzJHikx0j6E+P9KiwII7EOZBFCMZY21heqB5KxKJYPGNE3DePb26tLNxhb1EoI4SJ6RUvbpRRoKTmaqQaNo6TXUpbe601ns0xOS7Xv523prXUN1DtUoy+eZ6x8HgdhaoRIkUJQwc2zvjHMpc1jJgYBhgE4AOYA6AWgQBsMD9FdjTPQCQwJcAlX0YC4AYiwB8tAAgBZgCoM6JCnqNJZ54GWQ6bCpQJnFsaQhA/A0AWHDClYVAmATVUKQwCoU6C6KvlThSSFyP7UlZS/ylLTl9IVQa+z+uxB8uQxJGRFI8XQn+l1q0KVwzbb9J5ekzUHxCNBUvNyWsO4U2mDyk8Pi0UU0fwK1ihD20VWpahTZL63ZyWkaEh/yWzLburaOy97M3/PyZjtrPdSZpuTa89+1m/d+W7afX/zn+/frm5N/vu0tD2P0hmr9Xntsug5MQU1FMy45OC4yAA//uSxAADlN0hHk89LYNaN6JF9htQAC5DANADEgGUABgXkcHViEYhGWkMCQEkeBHflL8GBIixcuUcExIaiQijQA9pdwTC4OJMTkqO84x0I85WY9VehQ6hTBdjRV1MmokGpVRlmDmBcZ1CZRxmdQsI6J8j4ntqvTKEhOF0CxRg8KDC7CLRMcZrYqvXUWfNdPJ00VaaJJqNteOd9ffUO7aVncZ05zACttgSpOAwLgZLIrRjDCaakz4hC7KRSDSA4CqEIBOOAAJgBQhkatuBbGAhAEJgCYCkAgIswIcACFAAdNYOAOTCzgDlfSSQXAAUUGPgoAQBgAwJAK0SVxKXvewsymklfDi7mxN6ztA5FtiS2VL26JDtqowovGE+5a+bJX/dpwoVjDZdH0Ry9BZ9kfjypihGDB+aRqkS+VZ0sgPnGuNQ5WuH8oF2TF2y5MSUFC0MU+kRIpCBxRu5r1uanipS6Bi6IwYdMoWXfhnzK5f/7fbpvV/Z7e6fxiT7ae5Fq5lm43da6rwgaszKamMaEzbKAZhZyYgpqKZlxycFxkAAAAAAAP/7ksQAABJE6SJ15gADwrHm3zuQAAE4okAECtKTBID6MUYhI3Fw0zEvDzMHECMFAtBwASPjYzAFAGGhXS2CuHtpYnCBIDVlyy7AVIS6CwsFqg1NXEy0UFt9tfCXxm5d985dWriUXz9U1Dl9PmTpNy1XKvITuE9iZTV+2zMP/Kxr7Xbog7DBVl+33jpa96NUENMaAkHm5lDgJGsT9Vf+1XvvU515dJ8TgACIB0PAMBAAAUcTWNFBohRcKTBc+jNgIDBsBVlEQcrrMBAUKANKAtsg4BW3BQoCoG6yMQBbghKMBPe6zrsgQCFklTMN3Xv5qWKBqnccalRRIknnsWu9yVIqR1EAax0vqJYbjKcu6/vhD5tHFoEcGeAAR+YCcqHr2fOb/m+kRBvwgZ8vmXIQUAQDgtKZ040Sd52v/////wUegHZunRYnHkiUIpf1Vs1qWMxn/5z+c/nPjMapYdfCMr7d542WvRKpdnTU1N/1scec/+b/m////5u7OO/RupD8/FIfn7FvuOscbNXGU6yukkHf/6WI/+o6TTEFNRTMuOTguMj/+5LEAAMW1P0mHdyACxY3YwnUj2AwLCgxBIYxVI40VjI4aP8xwDMIBEEAOSgDGjA0PASDxjEFqmqsKU7MzAoFULQQGI5hKdPp+S5JkGmwegGL5M7Mo9gr6MSa8/79Q0DTAUkWaUuppXagaQuzLbnZVNQ1K71m9N2ZTepeb3hbqZ5U3438LXNYV6eMV7Pal3kzbwu4XdY4Z91nYr1LX7v6v//Py5rLe8b3a2lN/r7tvr39ZHrOquG5ZDcdJGmhcOVWRb0jVkav////9hgIsBkAGJhqTBhsdJjPaRp+fIOP4OBUv0HAsnoIwsAwWgo6IGWKwOeU3AwSiIAwoAhg+AiB8aSDSfEgOj007DwPIxtukVZI5igIhAJAdTtFeRs0/Gaeni1qCHEgWOuaZJw5EKRiMBBR74xr1OMIm002w+jDwBkb1PPNXtDBRlFRYgNNp+DXT1zEqdNRkhnAKigKmUUpsbQqfrafQnHptliAEHVTqYmxqRG86RCDxanSc8LXguH8K9akrLAXv2vXTCoQIitQKqYgpqKZlxycFxkAAAAAAAAA//uSxAADFqG1Fk480wrot6LJthcoABgDRJ+MOBUwMjDb8uPhtY0iFAUCQSHkipyfLAEBxdY1ZjaQ2KrUimIgYAjwEbhKkhQGjJWliDoSBDycmC3K49z4TBcwtSMV6QYOfc3wgXZ2MxXw2SDAeXeTRWKpRMic/fWXqJRGkjxzwbKJaGCZweyRDgJAtKFsmsjRBCy07NKkqt+bWszMbNyi2X8K2DVJRLbEazX2rWbKmYqOWZRI75pu92abKq87/v3/i+Sd8f9spj5jQgauA2sIMUADNX82ihMrDgUUqPGGgjTIdsmBgQkOtldiJvPZaYzVYrtQh9IaYgul93mfVlsPwUpk1qV0stUokEDy+H3c0W7k4cSyVNfCZYmI5uOfpiauUnxcQ7HqA5aIqwrHsLTjUo0T7xMRnc3XNwrWlauMjQChBLJYVZj0Or3VCGlYXu+slqJxzGdrR2rLKmD7991x1XIUbctct2s5ndETkTqU8xGIrI96iEQOV20RykWMKMFBWaEziiYgpqKZlxycFxkAAAAAAAAAAAAAAAAAAAAAAAAAAP/7ksQAAxb9vRANvM3DG7ehhcelsDW4cwEROekTZH06dfOkEwcJl1WWSoABABAigYeOJsQcpUAhxOBOQbo4R6y/i+Yl2pgkRcB1IgQoJgfy5T5bzHK00mckpWMqnUa3VCFp0u2lxUymXaoa7R4S4rYUBKhyK9eOOwHNuygM5zLa/7oTU8jeLggVLnZFMV0imOyl6Nb+VX0iizM8vu2q4yD7p8yqir756Z1mnFyrJRwqvphba9z8OpeI6RciYib8EUet4BEzBxwxE0lZqRYYGXheabBRid2GO/Qd3L4QQGRigTcF+RAEASGhoorpzaBVBFHQCEJKDGdp4UsD2qWEfIup1mcii3l3GAWaeGMN4Q0mj5CGNQwzYiKFStsFNtCFhCbEkQZNtTVJFRsMqMEKKbSxfFSnNMkK4KkjExDJ6RpGjSphDIxUdxYhhSNrZOXi9LoGmqtEyyjps9KMGfmJzl8lSkrmpis2p5HN/yUGptk3i+MfcpLUW+SnsLgmzrB908wgXQtMLKGWzxWZBUR8MhslbS1lMQU1FMy45OC4yAAAAAD/+5LEAAMWqc0ODhk7gwg3oYncMLA8q1gYRDCKZMrBk7iFjJYJLPiQSHgO6JaoqBYMEMenIizlH1Tis5SgLoYRtQyllt5lluGofeJW6B6aKvw3KrRP/IaSOYTlPencY3Xn0igYeemUmZY1UC6zX1rOQyaA+WzdPWyiEMdFlsQgSb8jdbTfcoKpn3MOcqJdvX8zj2Sm9NNa38PbNey1Vbsyr+aXqTx9q4b9VUzPWRZMxKMosXGkURaQtTnxGYo295cqVMK3BhHBJg2HQagAyICgyeCEoLElHw6PBss0tkAIQqdOWEDhrjEnYcN1i77eN1fBmyELrrVeE405CcTyiHIDQMDJ8y86IAUrlVx1SeShfcuojKvrDxsejIQyahxkQ/dTE8/U4poylV+itCchJVGvTkhU+herfOVx7TWNjpZ2b011j7b0H668/V5jfplonphqx9cp6FC39bs3o69kGWyb1/3ootpdzd2zFdq7b+1e518zHrRyjRMJVyy53t7XMocXGi7Vaxllq5gSV5YTEFNRTMuOTguMgAAAAAAAAAAAAAAA//uSxAAAF2G9DjXHgANEQ2s3NVAKDA1UsTFIlMsqQyOCD2YMMBgUvWyZyoFiAqClaYvDcVcVUooTzNzQWhjduKhiYLjpdnXPp7ERUjO40XomoUzMrkjGmcHNzV8GDV/TN+3VswMD2BLCnp6R3jzvKRIb6SXdWRyi4vPi2K4vH1v5zW2L67zeNQIGpbZ8/feSbcfUWm/vx6QZcb+d6tr69Lb1Nr3vfGIe8Uh7tvV6VvRypmt4FNSYpaIyYlmv4dILRFhP7MWX+ICVivsPnbAwwQBEJHpfJ6/v/hmBQGAreu4moVEzTHWGBjwZsC3NV+nIHmpCkwZuoDbZNAyrGbpMzgbbPIHknEBgIcm6zZTMnBYDgZgCgGNzSBl8PpII2qZkwOYUwDcxxA6GzwNiDEDT4RZaXRapbAZAFAGQhABh4rAZ0GwIj8BioKf3dlvrAxyIwLAILKBmyuRT//8NvFzhlsDFgcACDgcoBi8Lhb0F9P///JwjxxlQdAuAiA5ZExJxBT////88FsCZK4X3NjMLqCKEEGTpopf////////7dPNGTP/7ksQAABiRXWe5moASyDCmS7TwAAAQIBgOBgOBwOBwMBQFKgx1hKENeKstcGLSnHhnEmbFax/wMhgcDIzZn1QOqP4DdHBA5QZlNswGSUCBjVPgNSwDNpcUdb0gMpg0DZCTAKJgGUBeBlkqNt+BgEMgYGEoBA6AwORwMUkICIZ//AwGTAMIkgDLY8AeCQvyDUACPv/8G+g3VAwAFwIgYLvANDQZyG3AEAv//8PiJEQgE+h+whGIRhmA9cAEGBaP///4mAXRD3RHwWNCCYmIX9FCCUxQRDSqaC5gAVchFmSJmd4miRpMhYoYsQCgSfqOyyS8GlryLcheUCkxnQFUG6qQWyJAlRrq4iz6ISk0MCNl+OI1JTuFjLES00y/m6nFMcZvDPNiAvHhiuoTQ9nkkm8l2y0P7t3ds0pe8zc1Z1qeb6xB1X11TwMyvdVp6W1X4tnV9yWt//mu8Y360r6ze2d+2nKTxY0HzVjW1ves4xfNvFzPPAjvYMudWjOeYOYM1IOtQ9TR4fPDGN0+hMQU1FMy45OC4yAAAAAAAAAAAAAAAAD/+5LEAAAWpZ827Jk9Am60aLT0mngSAAAJJjLlaAkwywwFcCq4dom5pItxdt/I/YrwtrLzyaQRxS5xX1TeQBRpnMFuWzaC7jhVYEYnG3E7TwU+czbf1ubSrl2WzMij1HIJZK9cpNymtSeG0YCCCSRFqu7bUxiAIlK+ciTvxcKRs8WTrEJUmQ0hE7CdsW2Vj0hlGTdXTxtuVjPeMIxykBGIYA05ooOhcc8eQsLgIbMUYJxASqiJjEk1FMnfY2LcPCdtr3Tph9J/9WIFgAAqIlAKOy7akFqLcY6mVqKXTqLDfrFUo4pevetdMdothGQiQ8ygNnCNpltEyaWQ3Nk9LxlKI+ymRNLxpy6TJ9EIpCuiJOCCM46yhrrbUv+6ELabG1kIpm8U3TlRQjm9DOGkNUieVVU8USvOajTY8aW8l8i1BDpgxi1kUWHpkLiCB5ImYiR8kCYtmer6R5DnTWH3MppqZnaT29LtMQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//uSxAADln2BLE0w2Qr/qyQJt6cJABZkgy3xkuYGADg0ALhIiDALDXFRAZxTxmRQY8UPum6s1KaakhtQVlK7FxxFwFYq8y+DCXgmlGldSxYWQt3dQDTJEK8I+wjhJuclihNElTXHoVuJz09pW22q7b9jsv+qWt1t60lpcfPPW7DqM9qtdpRcTv76/NtIq5GUUdYK3OcSHEfSSQVT5zVOExVvxM4/t4NRyiVNBXLs4keRNBaskkbP1bHEvhkgU043Em7/FX/zXTO21BACCEkAEwcaZmIE5mwmY0DCTCQCC+y/BEOQMwJUbIV+qCpEqwyh98FIq3AoXQYQtQ/XMglflkj1J+MYVenRD7kJQtuw5Hl+zWL2T58VYcKgmIFVCZTxY4KeaG5Orb1R82LlZwyaGDdJS6YpbJkSxEqfQ2Zkmz0LsTRTWaaN0iWgTuk0k2mwE1G3Nb6RLyRzmSs31i7e+S5KlNDYqRpNIIilURIj6sSdWX1q2YRV4IqAEsPeqddkb/97N6VpXB41MQU1FMy45OC4yAAAAAAAAAAAAAAAAAAAAP/7ksQAAxTlVyJNPNgC7SskTZeleQAahAGDhBwYJ0GhUPA4SNFTYgGmNnbk09/YgxeJQAv9z3SWFbMy+gWMXSYgwpPVMJe0ocWLKStOigHct1ncquC3zDTeU6rH4wpdwVR7IcGGBYIUG0wxbcoxq0Eu0EilCFJCworp1nV0lNKqp/oy0aF0SCwyO3Mp59YafjuUkS2/z8JO1nb3lDbNxIKs7d2oT+u0Ltnp0jKTABKsAXR23MnXiq3EpAkKAAt2UgZNIYLciSBEket0rFjS7LKmjsiJ6YVkgcZBEsrWBfNMnICyAIUPJQN4RctpsbJUTlCELGCTUyE2ebgZVzGcNvlwhMioUCcBdCDQuJz5YVIncwWHxDImBuhceTtxQucQkrLV3puS2QVLaqJVRRkg0U2FsJLAWKvLEQoN3iU+g6aLF+WQTXsjU6qTmcHWSWRFokVC7SaIVoRclXbkhTYJkZATHJJGvq7dGZ+3Mt8rcecZoS85+vESeomIKaimZccnBcZAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+5LEAAMUJUMibTDVQ5G24YW8sbkAFSRgiViRYwmQwAMw4dW8YBpLl5VaJQ5NFD0nh92mtP/OQK9a2WBsScpW5m0RgBtxPXGpiMBSFKkQABQ9HhEvD2BBK9SM+gORqGTvlPut5ZS696TbLnVtNZ/eREYwKzLV7+xVvKNf79ixiBJzHcWkc2GkIKgpFGdPI9004aLY6/DNZb8qboc/cqAc+hJM0NicUKN5m1n8hvuj44mfAA/MigEGowRrJ4ZJUm6Jhto2aYDGRmpsBehaYEFhUQGQUDBLEHHijIh002Tl5qWlQU6oxkAxizBANaMgBSWBIBf8tAaYznNyL/Iqw4+hnuEQ4NOJglVpGyl/XFZCrmMyhlQNEDAUvnxj3GHSuW4u1E5DNHZ4QSQbFVjWTg/PFbRkHKhKere+A9dKz7S1rFTbhVSL6JkbjEKbTJpBPSqvSPfW9ENFA9rkcXtSc02ueuXRtoo8SsVMqxHy1lh63Xjd2jLUOdF7T609as81dbabNXpVbWjy6+StzWUJ+n2lbWApqBKfUxE5kFTEFNRQAAAA//uSxAAD1+mi7A1hK8AAADSAAAAEN9jFJRm0pmiBmQYkwDlQCGppPk16Hl4tIX+rCgGEARwKNiYaXCURekwgAjxWRUYWrRQV2yRobQWXMNbi6Dluo5zTWHLRW0zx34pP3r+rtzJVEQljpRdRRslIiqjbMtxEVSRuaj/Gpweyssuw9lpCRDJ1A25plZUscRuaQrKrHTqB7KydTqtisnDYyq6nB7JEQlSiNhsyTBURB4jQNsNISIqdQNsPZREJY4jYfGUZXebGV1v+xq4bFarq4TZRKpwTEFNRTMuOTguMgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==";
 
+// How far ahead of the audio context clock the buffers are scheduled, in seconds
+const SCHEDULE_LOOKAHEAD = 0.05
+// Seconds to skip with the media keys when the OS doesn't say
+const MEDIA_SESSION_SEEK_OFFSET = 10
+
+// The shortest loop range, in seconds
+const MIN_LOOP_LENGTH = 0.1
+const MIN_CLIP_LENGTH = 0.05
+
+// The version of the session state produced by getState
+const STATE_VERSION = 1
+
+// The number of straight segments that approximate an equal-power crossfade curve
+const CROSSFADE_STEPS = 4
+const ANALYSER_FFT_SIZE = 2048
+const METER_MIN_DB = -60
+const WHEEL_ZOOM_SPEED = 0.01
+// Lanes this close to the visible part of a scrolling session are rendered before they're scrolled into view
+const VIRTUAL_MARGIN = 256
+// The height of a WaveSurfer without a height option
+const DEFAULT_TRACK_HEIGHT = 128
+
 const PLACEHOLDER_TRACK = {
   id: 'placeholder',
   //url: 'data:audio/mp3;base64,SUQzBAAAAAAAI1RTU0UAAAAPAAADTGF2ZjU2LjM2LjEwMAAAAAAAAAAAAAAA//OEAAAAAAAAAAAAAAAAAAAAAAAASW5mbwAAAA8AAAAEAAABIADAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV6urq6urq6urq6urq6urq6urq6urq6urq6v////////////////////////////////8AAAAATGF2YzU2LjQxAAAAAAAAAAAAAAAAJAAAAAAAAAAAASDs90hvAAAAAAAAAAAAAAAAAAAA//MUZAAAAAGkAAAAAAAAA0gAAAAATEFN//MUZAMAAAGkAAAAAAAAA0gAAAAARTMu//MUZAYAAAGkAAAAAAAAA0gAAAAAOTku//MUZAkAAAGkAAAAAAAAA0gAAAAANVVV',
@@ -88,11 +364,16 @@ const PLACEHOLDER_TRACK = {
 }
 
 class MultiTrack extends EventEmitter<MultitrackEvents> {
-  private tracks: MultitrackTracks
+  private tracks: SessionTrack[]
   private options: MultitrackOptions
   private audios: Array<HTMLAudioElement | WebAudioPlayer> = []
-  private wavesurfers: Array<WaveSurfer> = []
-  private envelopes: Array<EnvelopePlugin> = []
+  private wavesurfers: Array<WaveSurfer | undefined> = []
+  private envelopes: Array<EnvelopePlugin | undefined> = []
+  private hiddenEnvelopes: Map<TrackId, EnvelopePoint[]> = new Map()
+  private envelopeSetters: Map<TrackId, (points: EnvelopePoint[]) => void> = new Map()
+  private panners: Array<StereoPannerNode> = []
+  private mediaSources: WeakMap<HTMLMediaElement, MediaElementAudioSourceNode> = new WeakMap()
+  private masterGain: GainNode
   private durations: Array<number> = []
   private currentTime = 0
   private maxDuration = 0
@@ -100,6 +381,27 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
   private frameRequest: number | null = null
   private subscriptions: Array<() => void> = []
   private audioContext: AudioContext
+  private decodedBuffers: Map<string, Promise<AudioBuffer>> = new Map()
+  private playback: { contextTime: number; position: number } | null = null
+  private audioRate = 1
+  private playing = false
+  private loop: MultitrackLoop | null = null
+  private selection: MultitrackSelection | null = null
+  private clipboard: { length: number; lanes: Array<{ id: TrackId; clips: ClipOptions[] }> } | null = null
+  private history: History
+  private isSnapBypassed = false
+  private loadStates: Map<TrackId, TrackLoadState> = new Map()
+  private crossfades: MultitrackCrossfade[] = []
+  private savedFades: Map<TrackId, { in?: SavedFade; out?: SavedFade }> = new Map()
+  private trackEffects: Map<TrackId, AudioNode[]> = new Map()
+  private analysers: Map<TrackId, AnalyserNode> = new Map()
+  private trackPeaks: Map<TrackId, TrackPeaks> = new Map()
+  // The level of the track peaks that each waveform is drawn from
+  private wavesurferPeaks: WeakMap<WaveSurfer, Array<Float32Array | number[]>> = new WeakMap()
+  private markers: MultitrackMarker[] = []
+  private markerRegions: Map<TrackId, { plugin: RegionsPlugin; regions: Region[] }> = new Map()
+  private masterAnalyser: AnalyserNode
+  private analyserData = new Float32Array(ANALYSER_FFT_SIZE)
 
   static create(tracks: MultitrackTracks, options: MultitrackOptions): MultiTrack {
     return new MultiTrack(tracks, options)
@@ -109,37 +411,167 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
     super()
 
     this.audioContext = new AudioContext()
+    this.masterGain = this.audioContext.createGain()
+    this.masterGain.connect(this.audioContext.destination)
+    this.masterAnalyser = this.createAnalyser()
+    this.masterGain.connect(this.masterAnalyser)
 
-    this.tracks = tracks.concat({ ...PLACEHOLDER_TRACK }).map((track) => ({
-      ...track,
-      startPosition: track.startPosition || 0,
-      peaks: track.peaks || (track.url || track.options?.media ? undefined : [new Float32Array()]),
-    }))
+    this.tracks = normalizeTracks(tracks)
     this.options = options
+    this.markers = options.markers?.map(withMarkerId) || []
+
+    this.history = new History(() => {
+      this.emit('history-change', { canUndo: this.history.canUndo(), canRedo: this.history.canRedo() })
+    })
+
+    this.rendering = this.createRendering()
+    this.load()
+
+    if (this.options.mediaSession) this.initMediaSession()
+  }
+
+  private initMediaSession() {
+    if (!('mediaSession' in navigator)) return
+    const { mediaSession } = this.options
+    if (typeof mediaSession === 'object') {
+      navigator.mediaSession.metadata = new MediaMetadata(mediaSession)
+    }
+
+    const seekBy = (offset: number) => {
+      this.setTime(Math.min(this.maxDuration, Math.max(0, this.currentTime + offset)))
+    }
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => this.play()],
+      ['pause', () => this.pause()],
+      ['stop', () => this.stop()],
+      ['seekto', ({ seekTime }) => seekTime !== undefined && this.setTime(seekTime)],
+      ['seekbackward', ({ seekOffset }) => seekBy(-(seekOffset ?? MEDIA_SESSION_SEEK_OFFSET))],
+      ['seekforward', ({ seekOffset }) => seekBy(seekOffset ?? MEDIA_SESSION_SEEK_OFFSET)],
+    ]
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler)
+      } catch {
+        // The action isn't supported by this browser
+      }
+    })
+
+    this.on('play', () => this.updateMediaSession())
+    this.on('pause', () => this.updateMediaSession())
+    this.on('seeking', () => this.updateMediaSession())
+  }
 
-    this.rendering = initRendering(this.tracks, this.options)
+  private updateMediaSession() {
+    if (!this.options.mediaSession || !('mediaSession' in navigator)) return
+    navigator.mediaSession.playbackState = this.playing ? 'playing' : 'paused'
+    if (!this.maxDuration) return
+    navigator.mediaSession.setPositionState({
+      duration: this.maxDuration,
+      position: Math.min(this.maxDuration, this.currentTime),
+      playbackRate: this.audioRate,
+    })
+  }
+
+  private createRendering() {
+    const rendering = initRendering(this.tracks, this.options)
+
+    // Holding the bypass key disables snapping to the grid
+    const onModifierChange = (e: KeyboardEvent | PointerEvent) => {
+      this.isSnapBypassed = e.getModifierState(this.options.grid?.bypassKey || 'Alt')
+    }
+    const modifierEvents = ['keydown', 'keyup', 'pointerdown', 'pointermove'] as const
+    modifierEvents.forEach((event) => document.addEventListener(event, onModifierChange))
+    this.subscriptions.push(() => {
+      modifierEvents.forEach((event) => document.removeEventListener(event, onModifierChange))
+    })
+
+    rendering.addDropHandler((laneId, position, data) => {
+      const track = laneId === null ? undefined : this.tracks[this.getTrackIndex(laneId)]
+      if (track && !track.url && !track.options?.media) {
+        this.emit('drop', { id: track.id })
+      }
+      if (this.options.dropFiles && data) {
+        this.loadDroppedAudio(laneId, position * this.maxDuration, data)
+      }
+    })
+
+    let crossfadeStart: MultitrackCrossfade | null = null
+    // The unclamped length that follows the pointer
+    let crossfadeLength = 0
+    rendering.addCrossfadeDragHandler(
+      (index, delta) => {
+        const crossfade = this.crossfades.find((c) => c.fadeInId === this.tracks[index]?.id)
+        if (!crossfade) return
+        crossfadeLength += delta * this.maxDuration
+        const length = Math.min(this.getMaxCrossfadeLength(crossfade), Math.max(MIN_CLIP_LENGTH, crossfadeLength))
+        this.setCrossfade({ ...crossfade, length })
+      },
+      (index) => {
+        crossfadeStart = this.crossfades.find((c) => c.fadeInId === this.tracks[index]?.id) || null
+        crossfadeLength = crossfadeStart?.length ?? 0
+      },
+      (index) => {
+        const prevCrossfade = crossfadeStart
+        const newCrossfade = this.crossfades.find((c) => c.fadeInId === this.tracks[index]?.id)
+        if (!prevCrossfade || !newCrossfade || prevCrossfade.length === newCrossfade.length) return
+        const { length } = newCrossfade
+        this.history.push({
+          undo: () => this.setCrossfade(prevCrossfade),
+          redo: () => this.setCrossfade({ ...prevCrossfade, length }),
+        })
+      },
+    )
+
+    rendering.addHeaderHandlers({
+      onMute: (id, muted) => this.setTrackMuted(id, muted),
+      onSolo: (id, solo) => this.setTrackSolo(id, solo),
+      onVolume: (id, volume) => this.getLaneIndexes(id).forEach((index) => this.setTrackVolume(index, volume)),
+      onReorder: (id, index) => this.moveTrack(id, index),
+    })
+
+    if (this.options.wheelZoom) {
+      rendering.addWheelZoomHandler((pxPerSec) => {
+        const { minZoom = 0, maxZoom = Infinity } = this.options
+        this.zoom(Math.min(maxZoom, Math.max(minZoom, pxPerSec)))
+      })
+    }
+
+    rendering.addMarkerHandlers({
+      onMove: (id, position) => this.moveMarker(id, Math.max(0, this.snapTime(position * this.maxDuration))),
+      onClick: (id) => {
+        const marker = this.getMarker(id)
+        if (marker) this.emit('marker-click', marker)
+      },
+    })
 
-    this.rendering.addDropHandler((trackId: TrackId) => {
-      this.emit('drop', { id: trackId })
+    rendering.addSelectionDragHandler((start, end, laneIds) => {
+      const startTime = this.snapTime(start * this.maxDuration)
+      const endTime = this.snapTime(end * this.maxDuration)
+      this.setSelection({ start: startTime, end: endTime, trackIds: laneIds })
     })
 
+    rendering.addVisibilityHandler(() => this.updateVisibleTracks())
+
+    rendering.addLoopDragHandler((start, end) => {
+      this.setLoop(start * this.maxDuration, end * this.maxDuration)
+      // Restore the previous loop range if the new one was too short
+      this.renderLoop()
+    })
+
+    return rendering
+  }
+
+  private load() {
     this.initAllAudios().then((durations) => {
+      // Another session was loaded in the meantime
+      if (!durations) return
+
       this.initDurations(durations)
 
       this.initAllWavesurfers()
 
-      this.rendering.containers.forEach((container, index) => {
-        if (tracks[index]?.draggable) {
-          const unsubscribe = initDragging(
-            container,
-            (delta: number) => this.onDrag(index, delta),
-            options.rightButtonDrag,
-          )
-          this.wavesurfers[index].once('destroy', unsubscribe)
-        }
-      })
-
       this.rendering.addClickHandler((position) => {
+        this.setSelection(null)
         this.seekTo(position)
       })
 
@@ -162,13 +594,17 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
     }
 
     this.rendering.setMainWidth(durations, this.maxDuration)
+    this.renderLoop()
+    this.renderMarkers()
+    this.renderSelection()
+    this.renderTimeReadout()
   }
 
   private initAudio(track: TrackOptions): Promise<HTMLAudioElement | WebAudioPlayer> {
     const isIOS = /iPhone|iPad/.test(navigator.userAgent)
     const isPlaceholderTrack = track.id === PLACEHOLDER_TRACK.id
-    const audio =
-      track.options?.media || (isIOS || isPlaceholderTrack ? new WebAudioPlayer(this.audioContext) : new Audio())
+    const useWebAudio = isIOS || isPlaceholderTrack || this.options.engine === 'webaudio'
+    const audio = track.options?.media || (useWebAudio ? new WebAudioPlayer(this.audioContext) : new Audio())
 
     audio.crossOrigin = 'anonymous'
 
@@ -179,6 +615,8 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
     //}
 
     if (track.volume !== undefined) audio.volume = track.volume
+    if (this.options.preservesPitch !== undefined) audio.preservesPitch = this.options.preservesPitch
+    audio.playbackRate = this.audioRate
 
     return new Promise<typeof audio>((resolve) => {
       if (!audio.src) return resolve(audio)
@@ -186,17 +624,195 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
         // For placeholder, resolve immediately
         return resolve(audio)
       }
-      (audio as HTMLAudioElement).addEventListener('loadedmetadata', () => resolve(audio), { once: true })
+
+      this.loadStates.set(track.id, 'loading')
+
+      const onProgress = () => {
+        const progress = getLoadProgress(audio)
+        if (progress !== null) this.emit('track-load-progress', { id: track.id, progress })
+      }
+
+      const onDone = (state: TrackLoadState) => {
+        audio.removeEventListener('progress', onProgress)
+        audio.removeEventListener('loadedmetadata', onLoad)
+        audio.removeEventListener('error', onError)
+        this.loadStates.set(track.id, state)
+        resolve(audio)
+      }
+
+      const onLoad = () => {
+        onDone('ready')
+        this.emit('track-load-progress', { id: track.id, progress: 1 })
+
+        // Decoded buffers get their peaks in the background, the waveform is drawn once they are ready
+        const buffer = audio instanceof WebAudioPlayer && !track.peaks && !track.peaksBundle ? audio.getBuffer() : null
+        if (buffer) generatePeaks(buffer).then((peaks) => this.setTrackPeaks(track.id, peaks))
+      }
+
+      // Resolve anyway so that the rest of the session can still be played
+      const onError = () => {
+        onDone('error')
+        const message = audio.error?.message || `Failed to load ${audio.src}`
+        this.emit('track-error', { id: track.id, error: new Error(message) })
+      }
+
+      audio.addEventListener('progress', onProgress)
+      audio.addEventListener('loadedmetadata', onLoad)
+      audio.addEventListener('error', onError)
+    })
+  }
+
+  private setTrackPeaks(id: TrackId, peaks: TrackPeaks) {
+    this.trackPeaks.set(id, peaks)
+    this.updateWavesurferPeaks(this.getTrackIndex(id))
+    this.emit('track-peaks', { id, peaks })
+  }
+
+  // Draw a waveform from the peaks level that matches the zoom, its media keeps its source
+  private updateWavesurferPeaks(index: number) {
+    const ws = this.wavesurfers[index]
+    const trackPeaks = this.trackPeaks.get(this.tracks[index]?.id)
+    if (!ws || !trackPeaks || this.tracks[index].peaks || this.hasLoadError(index)) return
+
+    const peaks = getPeaksForZoom(trackPeaks, this.getWaveformPxPerSec())
+    if (this.wavesurferPeaks.get(ws) === peaks) return
+    this.wavesurferPeaks.set(ws, peaks)
+    const media = ws.getMediaElement()
+    ws.load(media.currentSrc || media.src, peaks, this.durations[index])
+  }
+
+  // Device pixels per second of the waveforms, the session is as wide as the zoom makes it
+  private getWaveformPxPerSec(): number {
+    return (this.rendering.wrapper.offsetWidth / this.maxDuration) * devicePixelRatio
+  }
+
+  /** The multi-resolution peaks of a track, once its audio is decoded */
+  public getTrackPeaks(id: TrackId): TrackPeaks | undefined {
+    return this.trackPeaks.get(id)
+  }
+
+  public getTrackLoadState(id: TrackId): TrackLoadState | undefined {
+    return this.loadStates.get(id)
+  }
+
+  private hasLoadError(index: number): boolean {
+    return this.loadStates.get(this.tracks[index].id) === 'error'
+  }
+
+  // Route a track through its own panner into the master bus
+  private connectAudio(audio: HTMLAudioElement | WebAudioPlayer, track: TrackOptions): StereoPannerNode {
+    const panner = this.audioContext.createStereoPanner()
+    panner.pan.value = clampPan(track.pan ?? 0)
+    panner.connect(this.masterGain)
+    this.connectEffects(audio, track, panner)
+
+    // All clips of a lane are metered together
+    const laneId = getLaneId(track)
+    let analyser = this.analysers.get(laneId)
+    if (!analyser) {
+      analyser = this.createAnalyser()
+      this.analysers.set(laneId, analyser)
+    }
+    panner.connect(analyser)
+
+    return panner
+  }
+
+  private createAnalyser(): AnalyserNode {
+    const analyser = this.audioContext.createAnalyser()
+    analyser.fftSize = ANALYSER_FFT_SIZE
+    return analyser
+  }
+
+  private getLevel(analyser: AnalyserNode): MultitrackLevel {
+    const data = this.analyserData
+    analyser.getFloatTimeDomainData(data)
+    let peak = 0
+    let sum = 0
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]))
+      sum += data[i] * data[i]
+    }
+    return { peak, rms: Math.sqrt(sum / data.length), clipping: peak >= 1 }
+  }
+
+  /** The current peak and RMS levels of every track and of the master bus */
+  public getLevels(): MultitrackLevels {
+    return {
+      master: this.getLevel(this.masterAnalyser),
+      tracks: this.getLaneIds().flatMap((id) => {
+        const analyser = this.analysers.get(id)
+        return analyser ? [{ id, ...this.getLevel(analyser) }] : []
+      }),
+    }
+  }
+
+  private updateMeters() {
+    const { meter } = this.options
+    if (!meter?.events && !meter?.show) return
+    const levels = this.getLevels()
+    if (meter.show) this.rendering.setMeterLevels(levels.tracks)
+    if (meter.events) this.emit('meter', levels)
+  }
+
+  // Route a track's audio through its effects chain into its panner
+  private connectEffects(audio: HTMLAudioElement | WebAudioPlayer, track: TrackOptions, panner: AudioNode) {
+    this.trackEffects.get(track.id)?.forEach((node) => node.disconnect())
+
+    // The clips of a lane can't share the same nodes
+    const isFirstClip = this.tracks.find((t) => getLaneId(t) === getLaneId(track)) === track
+    const effects = createEffects(this.audioContext, track.effects || [], isFirstClip, (error) => {
+      this.emit('track-error', { id: track.id, error })
+    })
+    this.trackEffects.set(track.id, effects)
+    effects[effects.length - 1]?.connect(panner)
+    const input = effects[0] || panner
+
+    if (audio instanceof WebAudioPlayer) {
+      audio.connect(input)
+    } else {
+      // A media element can only be captured once
+      let source = this.mediaSources.get(audio)
+      if (!source) {
+        source = this.audioContext.createMediaElementSource(audio)
+        this.mediaSources.set(audio, source)
+      }
+      source.disconnect()
+      source.connect(input)
+    }
+  }
+
+  /** Replace the insert effects of a track and all its clips */
+  public setTrackEffects(id: TrackId, effects: TrackEffect[]) {
+    this.getLaneIndexes(id).forEach((index) => {
+      this.tracks[index].effects = effects
+      const panner = this.panners[index]
+      if (panner) this.connectEffects(this.audios[index], this.tracks[index], panner)
     })
   }
 
-  private async initAllAudios(): Promise<number[]> {
-    this.audios = await Promise.all(this.tracks.map((track) => this.initAudio(track)))
-    return this.audios.map((a) => (a.src ? a.duration : 0))
+  private async initAllAudios(): Promise<number[] | null> {
+    const tracks = this.tracks
+    const audios = await Promise.all(tracks.map((track) => this.initAudio(track)))
+    if (tracks !== this.tracks) {
+      audios.forEach((audio) => (audio.src = ''))
+      return null
+    }
+    this.audios = audios
+    this.panners = this.audios.map((audio, index) => this.connectAudio(audio, this.tracks[index]))
+    return this.audios.map(getAudioDuration)
   }
 
   private initWavesurfer(track: TrackOptions, index: number): WaveSurfer {
     const container = this.rendering.containers[index]
+    const hasLoadError = this.hasLoadError(index)
+    this.rendering.setTrackError(index, hasLoadError ? 'Failed to load audio' : null)
+
+    if (track.peaksBundle) this.trackPeaks.set(track.id, parsePeaks(track.peaksBundle))
+    const trackPeaks = this.trackPeaks.get(track.id)
+    const levelPeaks = trackPeaks && !track.peaks ? getPeaksForZoom(trackPeaks, this.getWaveformPxPerSec()) : undefined
+    // Decoded buffers are drawn once their peaks are generated
+    const isGeneratingPeaks = this.audios[index] instanceof WebAudioPlayer && !levelPeaks
 
     // Create a wavesurfer instance
     const ws = WaveSurfer.create({
@@ -206,65 +822,53 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
       media: this.audios[index] as HTMLMediaElement,
       peaks:
         track.peaks ||
-        (this.audios[index] instanceof WebAudioPlayer
-          ? (this.audios[index] as WebAudioPlayer).getChannelData()
-          : undefined),
+        // Don't let WaveSurfer fetch a broken file again
+        (hasLoadError || isGeneratingPeaks ? [new Float32Array()] : undefined) ||
+        levelPeaks,
       duration: this.durations[index],
       cursorColor: 'transparent',
       cursorWidth: 0,
       interact: false,
       hideScrollbar: true,
     })
+    if (levelPeaks && !hasLoadError) this.wavesurferPeaks.set(ws, levelPeaks)
+
+    // Unsubscribe when the waveform is scrolled out of view or removed
+    const subscriptions: Array<() => void> = []
+    ws.once('destroy', () => subscriptions.forEach((unsubscribe) => unsubscribe()))
+
+    if ((track.url || track.options?.media) && track.id !== PLACEHOLDER_TRACK.id) {
+      ws.once('destroy', this.initTrackTrimming(container, index))
+    }
 
     if (track.id === PLACEHOLDER_TRACK.id) {
       ws.registerPlugin(
         TimelinePlugin.create({
-          container: this.rendering.containers[0].parentElement,
+          container: this.rendering.wrapper,
+          ...this.getTimelineFormatOptions(),
           ...this.options.timelineOptions,
         } as TimelinePluginOptions),
       )
     }
 
+    // WaveSurfer decodes media tracks itself, their peaks are generated afterwards
+    const isMediaTrack = !(this.audios[index] instanceof WebAudioPlayer)
+    if (!track.peaks && !trackPeaks && !hasLoadError && isMediaTrack && track.url) {
+      subscriptions.push(
+        ws.once('decode', () => {
+          const buffer = ws.getDecodedData()
+          if (buffer) generatePeaks(buffer).then((peaks) => this.setTrackPeaks(track.id, peaks))
+        }),
+      )
+    }
+
     // Regions and markers
     const wsRegions = RegionsPlugin.create()
     ws.registerPlugin(wsRegions)
+    this.markerRegions.delete(track.id)
 
-    this.subscriptions.push(
+    subscriptions.push(
       ws.once('decode', () => {
-        // Start and end cues
-        if (track.startCue != null || track.endCue != null) {
-          const { startCue = 0, endCue = this.durations[index] } = track
-          const startCueRegion = wsRegions.addRegion({
-            start: 0,
-            end: startCue,
-            color: 'rgba(0, 0, 0, 0.7)',
-            drag: false,
-          })
-          const endCueRegion = wsRegions.addRegion({
-            start: endCue,
-            end: this.durations[index],
-            color: 'rgba(0, 0, 0, 0.7)',
-            drag: false,
-          })
-
-          // Allow resizing only from one side
-          startCueRegion.element.firstElementChild?.remove()
-          endCueRegion.element.lastChild?.remove()
-
-          // Update the start and end cues on resize
-          this.subscriptions.push(
-            startCueRegion.on('update-end', () => {
-              track.startCue = startCueRegion.end
-              this.emit('start-cue-change', { id: track.id, startCue: track.startCue as number })
-            }),
-
-            endCueRegion.on('update-end', () => {
-              track.endCue = endCueRegion.start
-              this.emit('end-cue-change', { id: track.id, endCue: track.endCue as number })
-            }),
-          )
-        }
-
         // Intro
         if (track.intro) {
           const introRegion = wsRegions.addRegion({
@@ -283,24 +887,27 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
             }
           }
 
-          this.subscriptions.push(
+          const intro = track.intro
+          const setIntroEnd = (endTime: number) => {
+            intro.endTime = endTime
+            introRegion.setOptions({ start: 0, end: endTime })
+            this.emit('intro-end-change', { id: track.id, endTime })
+          }
+
+          subscriptions.push(
             introRegion.on('update-end', () => {
-              this.emit('intro-end-change', { id: track.id, endTime: introRegion.end })
+              const prevEndTime = intro.endTime
+              const newEndTime = this.snapTrackTime(track, introRegion.end)
+              setIntroEnd(newEndTime)
+              if (newEndTime === prevEndTime) return
+              this.history.push({ undo: () => setIntroEnd(prevEndTime), redo: () => setIntroEnd(newEndTime) })
             }),
           )
         }
 
         // Render markers
-        if (track.markers) {
-          track.markers.forEach((marker) => {
-            wsRegions.addRegion({
-              start: marker.time,
-              content: marker.label,
-              color: marker.color,
-              resize: false,
-            })
-          })
-        }
+        this.markerRegions.set(track.id, { plugin: wsRegions, regions: [] })
+        this.renderTrackMarkers(track)
       }),
     )
 
@@ -313,46 +920,65 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
         }),
       )
 
-      if (Array.isArray(track.envelope)) {
-        envelope.setPoints(track.envelope)
-      }
+      // A track scrolled back into view keeps the points it had while it was hidden
+      envelope.setPoints(this.hiddenEnvelopes.get(track.id) || getInitialEnvelopePoints(track))
+      this.hiddenEnvelopes.delete(track.id)
 
-      if (track.fadeInEnd) {
-        if (track.startCue) {
-          envelope.addPoint({ time: track.startCue || 0, volume: 0, id: 'startCue' })
-        }
-        envelope.addPoint({ time: track.fadeInEnd || 0, volume: track.volume ?? 1, id: 'fadeInEnd' })
-      }
+      this.envelopes[index] = envelope
 
-      if (track.fadeOutStart) {
-        envelope.addPoint({ time: track.fadeOutStart, volume: track.volume ?? 1, id: 'fadeOutStart' })
-        if (track.endCue) {
-          envelope.addPoint({ time: track.endCue, volume: 0, id: 'endCue' })
-        }
+      // The last known points, to tell user edits apart from programmatic updates
+      let lastPoints = envelope.getPoints().map((point) => ({ ...point }))
+      const applyPoints = (points: EnvelopePoint[]) => {
+        lastPoints = points.map((point) => ({ ...point }))
+        envelope.setPoints(points.map((point) => ({ ...point })))
+      }
+      this.envelopeSetters.set(track.id, applyPoints)
+      subscriptions.push(() => this.envelopeSetters.delete(track.id))
+
+      // Move the cue points along with the trim handles, and keep the fades within the cues
+      const setCuePoints = () => {
+        const { startCue = 0, endCue = ws.getDuration() } = track
+        const newPoints = moveCuePoints(envelope.getPoints(), startCue, endCue)
+        if (!arePointsEqual(newPoints, envelope.getPoints())) applyPoints(newPoints)
       }
 
-      this.envelopes[index] = envelope
-
-      const setPointTimeById = (id: string, time: number) => {
-        const points = envelope.getPoints()
-        const newPoints = points.map((point) => {
-          if (point.id === id) {
-            return { ...point, time }
-          }
-          return point
-        })
-        envelope.setPoints(newPoints)
+      // Replace a fade with the points of an equal-power crossfade, or remove it
+      const setCrossfadePoints = (side: 'in' | 'out', time: number, length: number) => {
+        applyPoints(this.getCrossfadeEnvelope(track, envelope.getPoints(), side, time, length))
       }
 
       let prevFadeInEnd = track.fadeInEnd
       let prevFadeOutStart = track.fadeOutStart
 
-      this.subscriptions.push(
+      subscriptions.push(
         envelope.on('volume-change', (volume) => {
           this.emit('volume-change', { id: track.id, volume })
         }),
 
         envelope.on('points-change', (points) => {
+          track.fadeInEnd = points.find((point) => point.id === 'fadeInEnd')?.time ?? track.fadeInEnd
+          track.fadeOutStart = points.find((point) => point.id === 'fadeOutStart')?.time ?? track.fadeOutStart
+
+          if (!arePointsEqual(points, lastPoints)) {
+            const prevPoints = lastPoints
+            // Only snap the points that were moved, not the ones of the cues and fades
+            const isMoved = (point: EnvelopePoint) => {
+              return !isGeneratedPoint(point) && !prevPoints.some((p) => p.id === point.id && p.time === point.time)
+            }
+            const newPoints = points.map((point) => {
+              return isMoved(point) ? { ...point, time: this.snapTrackTime(track, point.time) } : { ...point }
+            })
+            if (arePointsEqual(newPoints, points)) {
+              lastPoints = newPoints
+            } else {
+              applyPoints(newPoints)
+            }
+            this.history.push({
+              undo: () => this.applyEnvelopePoints(track.id, prevPoints),
+              redo: () => this.applyEnvelopePoints(track.id, newPoints),
+            })
+          }
+
           const fadeIn = points.find((point) => point.id === 'fadeInEnd')
           if (fadeIn && fadeIn.time !== prevFadeInEnd) {
             this.emit('fade-in-change', { id: track.id, fadeInEnd: fadeIn.time })
@@ -368,16 +994,17 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
           this.emit('envelope-points-change', { id: track.id, points })
         }),
 
-        this.on('start-cue-change', ({ id, startCue }) => {
-          if (id === track.id) {
-            setPointTimeById('startCue', startCue)
-          }
+        this.on('start-cue-change', ({ id }) => {
+          if (id === track.id) setCuePoints()
         }),
 
-        this.on('end-cue-change', ({ id, endCue }) => {
-          if (id === track.id) {
-            setPointTimeById('endCue', endCue)
-          }
+        this.on('crossfade-change', ({ fadeOutId, fadeInId, start, length }) => {
+          if (fadeInId === track.id) setCrossfadePoints('in', start - track.startPosition, length)
+          if (fadeOutId === track.id) setCrossfadePoints('out', start - track.startPosition, length)
+        }),
+
+        this.on('end-cue-change', ({ id }) => {
+          if (id === track.id) setCuePoints()
         }),
 
         ws.on('decode', () => {
@@ -390,11 +1017,96 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
   }
 
   private initAllWavesurfers() {
-    const wavesurfers = this.tracks.map((track, index) => {
-      return this.initWavesurfer(track, index)
+    this.wavesurfers = this.tracks.map((_, index) => this.mountWavesurfer(index))
+  }
+
+  // Lanes outside of the visible part of a scrolling session don't need a waveform, the timeline always does
+  private isTrackVisible(index: number): boolean {
+    const track = this.tracks[index]
+    return track.id === PLACEHOLDER_TRACK.id || this.rendering.isLaneVisible(getLaneId(track))
+  }
+
+  // Create the waveform of a visible track, a hidden track only keeps its envelope points
+  private mountWavesurfer(index: number): WaveSurfer | undefined {
+    const track = this.tracks[index]
+    if (!this.isTrackVisible(index)) {
+      if (track.envelope && !this.hiddenEnvelopes.has(track.id)) {
+        this.hiddenEnvelopes.set(track.id, getInitialEnvelopePoints(track))
+      }
+      return undefined
+    }
+
+    const ws = this.initWavesurfer(track, index)
+    if (track.draggable) {
+      ws.once('destroy', this.initTrackDragging(this.rendering.containers[index], index))
+    }
+    return ws
+  }
+
+  // Destroy the waveform of a track that was scrolled out of view, its audio keeps playing
+  private unmountWavesurfer(index: number) {
+    const ws = this.wavesurfers[index]
+    if (!ws) return
+    const { id } = this.tracks[index]
+    const points = this.envelopes[index]?.getPoints().map((point) => ({ ...point }))
+    if (points) this.hiddenEnvelopes.set(id, points)
+
+    // Destroying a WaveSurfer pauses its media, so give it another one
+    ws.setMediaElement(document.createElement('audio'))
+    ws.destroy()
+    this.wavesurfers[index] = undefined
+    this.envelopes[index] = undefined
+    this.markerRegions.delete(id)
+  }
+
+  // Render the waveforms of the lanes scrolled into view, and destroy the ones scrolled out of it
+  private updateVisibleTracks() {
+    // Not loaded yet
+    if (this.wavesurfers.length !== this.tracks.length) return
+
+    this.tracks.forEach((_, index) => {
+      const isVisible = this.isTrackVisible(index)
+      if (isVisible && !this.wavesurfers[index]) {
+        this.wavesurfers[index] = this.mountWavesurfer(index)
+      } else if (!isVisible) {
+        this.unmountWavesurfer(index)
+      }
+    })
+  }
+
+  // Hidden tracks have no envelope plugin, so their envelope volume is applied while playing
+  private applyHiddenEnvelopes() {
+    this.hiddenEnvelopes.forEach((points, id) => {
+      const index = this.getTrackIndex(id)
+      const audio = this.audios[index]
+      if (!audio || audio.paused) return
+      // Rounded like EnvelopePlugin does
+      const volume = Math.round(getEnvelopeVolume(points, audio.currentTime, this.durations[index]) * 100) / 100
+      if (volume === Math.round(audio.volume * 100) / 100) return
+      audio.volume = volume
+      this.emit('volume-change', { id, volume })
     })
+  }
+
+  private updateHiddenEnvelope(id: TrackId, update: (points: EnvelopePoint[]) => EnvelopePoint[]) {
+    const points = this.hiddenEnvelopes.get(id)
+    if (points) this.hiddenEnvelopes.set(id, update(points))
+  }
+
+  // Undo and redo envelope edits on the current waveform of a track, or on its points while it's hidden
+  private applyEnvelopePoints(id: TrackId, points: EnvelopePoint[]) {
+    const setPoints = this.envelopeSetters.get(id)
+    if (setPoints) {
+      setPoints(points)
+    } else if (this.hiddenEnvelopes.has(id)) {
+      const copy = points.map((point) => ({ ...point }))
+      this.hiddenEnvelopes.set(id, copy)
+      this.emit('envelope-points-change', { id, points })
+    }
+  }
 
-    this.wavesurfers = wavesurfers
+  private hasEnvelope(index: number): boolean {
+    return !!this.envelopes[index] || this.hiddenEnvelopes.has(this.tracks[index]?.id)
   }
 
   private updatePosition(time: number, autoCenter = false) {
@@ -404,84 +1116,471 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
     if (time !== this.currentTime) {
       this.currentTime = time
       this.rendering.updateCursor(time / this.maxDuration, autoCenter)
+      this.renderTimeReadout()
+      this.emit('timeupdate', time)
     }
 
     // Update the current time of each audio
     this.tracks.forEach((track, index) => {
       const audio = this.audios[index]
+      if (!audio) return
       const duration = this.durations[index]
       const newTime = time - track.startPosition
+      const isSilenced = this.isTrackSilenced(index)
+
+      // Scheduled buffers follow the audio context clock and are only moved while paused
+      if (this.isScheduled(index)) {
+        if (!this.playback) audio.currentTime = Math.min(duration, Math.max(0, newTime))
+        if (isSilenced !== audio.muted) audio.muted = isSilenced
+        return
+      }
+
+      const [startCue, endCue] = getTrackCues(track, duration)
 
       if (Math.abs(audio.currentTime - newTime) > precisionSeconds) {
-        audio.currentTime = Math.max(0, newTime)
+        audio.currentTime = Math.max(startCue, newTime)
       }
 
-      // If the position is out of the track bounds, pause it
-      if (isPaused || newTime < 0 || newTime > duration) {
+      // If the position is out of the trimmed track bounds, pause it
+      if (isPaused || newTime < startCue || newTime > endCue) {
         !audio.paused && audio.pause()
       } else if (!isPaused) {
         // If the position is in the track bounds, play it
         audio.paused && audio.play()
       }
 
-      // Unmute if cue is reached
-      const isMuted = newTime < (track.startCue || 0) || newTime > (track.endCue || Infinity)
-      if (isMuted != audio.muted) audio.muted = isMuted
+      // Mute if the track is muted or another track is soloed
+      if (isSilenced !== audio.muted) audio.muted = isSilenced
     })
   }
 
-  private onDrag(index: number, delta: number) {
+  private initTrackDragging(container: HTMLElement, index: number): () => void {
+    const { id } = this.tracks[index]
+    let dragStartPosition = 0
+    // The unsnapped position that follows the pointer
+    let dragPosition = 0
+
+    const unsubscribe = initDragging(
+      container,
+      (delta: number) => {
+        dragPosition += delta * this.maxDuration
+        this.onDrag(this.getTrackIndex(id), dragPosition)
+      },
+      this.options.rightButtonDrag,
+      () => {
+        dragStartPosition = dragPosition = this.tracks[this.getTrackIndex(id)].startPosition
+      },
+      () => {
+        const newStartPosition = this.tracks[this.getTrackIndex(id)].startPosition
+        if (newStartPosition !== dragStartPosition) {
+          this.updateCrossfades(id)
+          this.pushStartPositionChange(id, dragStartPosition, newStartPosition)
+        }
+      },
+    )
+    return unsubscribe
+  }
+
+  private initTrackTrimming(container: HTMLElement, index: number): () => void {
+    const { id } = this.tracks[index]
+    let dragStartCues: [number, number] = [0, 0]
+    // The unsnapped cue that follows the pointer
+    let dragCue = 0
+
+    const unsubscribe = initTrimming(
+      container,
+      (side, delta) => {
+        const trackIndex = this.getTrackIndex(id)
+        const track = this.tracks[trackIndex]
+        const [startCue, endCue] = getTrackCues(track, this.durations[trackIndex])
+        dragCue += delta * this.maxDuration
+        const cue = this.snapTrackTime(track, dragCue)
+        if (side === 'start') {
+          this.setTrackCues(trackIndex, Math.min(cue, endCue - MIN_CLIP_LENGTH), endCue)
+        } else {
+          this.setTrackCues(trackIndex, startCue, Math.max(cue, startCue + MIN_CLIP_LENGTH))
+        }
+      },
+      (side) => {
+        const trackIndex = this.getTrackIndex(id)
+        dragStartCues = getTrackCues(this.tracks[trackIndex], this.durations[trackIndex])
+        dragCue = side === 'start' ? dragStartCues[0] : dragStartCues[1]
+      },
+      () => {
+        const trackIndex = this.getTrackIndex(id)
+        const [prevStartCue, prevEndCue] = dragStartCues
+        const [newStartCue, newEndCue] = getTrackCues(this.tracks[trackIndex], this.durations[trackIndex])
+        if (newStartCue === prevStartCue && newEndCue === prevEndCue) return
+        const apply = (startCue: number, endCue: number) => {
+          const i = this.getTrackIndex(id)
+          if (i !== -1) this.setTrackCues(i, startCue, endCue)
+        }
+        this.history.push({
+          undo: () => apply(prevStartCue, prevEndCue),
+          redo: () => apply(newStartCue, newEndCue),
+        })
+      },
+    )
+    this.renderTrim(index)
+    return unsubscribe
+  }
+
+  // Change the part of a track's audio that is played
+  private setTrackCues(index: number, startCue: number, endCue: number) {
+    const track = this.tracks[index]
+    const [prevStartCue, prevEndCue] = getTrackCues(track, this.durations[index])
+    track.startCue = startCue
+    track.endCue = endCue
+    this.renderTrim(index)
+    this.updateHiddenEnvelope(track.id, (points) => moveCuePoints(points, startCue, endCue))
+    this.updatePosition(this.currentTime)
+    this.reschedulePlayback()
+
+    if (startCue !== prevStartCue) this.emit('start-cue-change', { id: track.id, startCue })
+    if (endCue !== prevEndCue) this.emit('end-cue-change', { id: track.id, endCue })
+  }
+
+  private renderTrim(index: number) {
+    const duration = this.durations[index]
+    if (!duration) return
+    const [startCue, endCue] = getTrackCues(this.tracks[index], duration)
+    this.rendering.setTrim(index, startCue / duration, endCue / duration)
+  }
+
+  private onDrag(index: number, position: number) {
     const track = this.tracks[index]
     if (!track.draggable) return
 
-    const newStartPosition = track.startPosition + delta * this.maxDuration
-    const minStart = this.options.dragBounds ? 0 : -this.durations[index] - 1
+    const newStartPosition = this.snapTime(position)
+    if (newStartPosition === track.startPosition) return
+    const minStart = this.options.dragBounds ? -(track.startCue || 0) : -this.durations[index] - 1
     const maxStart = this.maxDuration - this.durations[index]
 
     if (newStartPosition >= minStart && newStartPosition <= maxStart) {
-      track.startPosition = newStartPosition
-      this.initDurations(this.durations)
-      this.rendering.setContainerOffsets()
-      this.updatePosition(this.currentTime)
-      this.emit('start-position-change', { id: track.id, startPosition: newStartPosition })
+      this.applyStartPosition(index, newStartPosition)
     }
   }
 
-  private findCurrentTracks(): number[] {
-    // Find the audios at the current time
-    const indexes: number[] = []
-
-    this.tracks.forEach((track, index) => {
-      if (
-        (track.url || track.options?.media) &&
-        this.currentTime >= track.startPosition &&
-        this.currentTime < track.startPosition + this.durations[index]
-      ) {
-        indexes.push(index)
-      }
-    })
+  private applyStartPosition(index: number, startPosition: number) {
+    const track = this.tracks[index]
+    track.startPosition = startPosition
+    this.initDurations(this.durations)
+    this.rendering.setContainerOffsets()
+    this.updatePosition(this.currentTime)
+    this.reschedulePlayback()
+    this.emit('start-position-change', { id: track.id, startPosition })
+  }
 
-    if (indexes.length === 0) {
-      const minStartTime = Math.min(...this.tracks.filter((t) => t.url).map((track) => track.startPosition))
-      indexes.push(this.tracks.findIndex((track) => track.startPosition === minStartTime))
+  private pushStartPositionChange(id: TrackId, prevStartPosition: number, newStartPosition: number) {
+    const apply = (startPosition: number) => {
+      const index = this.getTrackIndex(id)
+      if (index === -1) return
+      this.applyStartPosition(index, startPosition)
+      this.updateCrossfades(id)
     }
+    this.history.push({ undo: () => apply(prevStartPosition), redo: () => apply(newStartPosition) })
+  }
+  public getCrossfades(): MultitrackCrossfade[] {
+    return this.crossfades.map((crossfade) => ({ ...crossfade }))
+  }
 
-    return indexes
+  // The session time range in which a track is played
+  private getTrackRange(index: number): [number, number] {
+    const { startPosition } = this.tracks[index]
+    const [startCue, endCue] = getTrackCues(this.tracks[index], this.durations[index])
+    return [startPosition + startCue, startPosition + endCue]
+  }
+
+  // A crossfade can be as long as the overlap of its tracks
+  private getMaxCrossfadeLength({ fadeOutId, start }: MultitrackCrossfade): number {
+    const index = this.getTrackIndex(fadeOutId)
+    return index === -1 ? 0 : this.getTrackRange(index)[1] - start
+  }
+
+  // Crossfade a moved track with the tracks it overlaps at its start and end
+  private updateCrossfades(id: TrackId) {
+    const index = this.getTrackIndex(id)
+    if (!this.options.crossfade || index === -1) return
+
+    this.crossfades
+      .filter((c) => c.fadeInId === id || c.fadeOutId === id)
+      .forEach((c) => this.setCrossfade({ ...c, length: 0 }))
+    if (!this.hasEnvelope(index)) return
+
+    const [start, end] = this.getTrackRange(index)
+    const candidates: MultitrackCrossfade[] = []
+
+    this.tracks.forEach((other, i) => {
+      if (i === index || !this.hasEnvelope(i) || other.id === PLACEHOLDER_TRACK.id) return
+      const [otherStart, otherEnd] = this.getTrackRange(i)
+      if (start > otherStart && start < otherEnd && end > otherEnd) {
+        candidates.push({ fadeOutId: other.id, fadeInId: id, start, length: otherEnd - start })
+      } else if (end > otherStart && end < otherEnd && start < otherStart) {
+        candidates.push({ fadeOutId: id, fadeInId: other.id, start: otherStart, length: end - otherStart })
+      }
+    })
+
+    // Only the longest overlap on each side of the track is crossfaded
+    const longest = (crossfades: MultitrackCrossfade[]) =>
+      crossfades.reduce<MultitrackCrossfade | null>((a, b) => (a && a.length >= b.length ? a : b), null)
+    const fadeIn = longest(candidates.filter((c) => c.fadeInId === id))
+    const fadeOut = longest(candidates.filter((c) => c.fadeOutId === id))
+    if (fadeIn) this.setCrossfade(fadeIn)
+    if (fadeOut) this.setCrossfade(fadeOut)
+  }
+
+  private setCrossfade(crossfade: MultitrackCrossfade) {
+    const { fadeOutId, fadeInId, length } = crossfade
+
+    // A track has at most one crossfade on each side
+    const isSamePair = (c: MultitrackCrossfade) => c.fadeOutId === fadeOutId && c.fadeInId === fadeInId
+    const replaced = this.crossfades.filter(
+      (c) => !isSamePair(c) && (c.fadeOutId === fadeOutId || c.fadeInId === fadeInId),
+    )
+    this.crossfades = this.crossfades.filter((c) => c.fadeOutId !== fadeOutId && c.fadeInId !== fadeInId)
+    replaced.forEach((c) => {
+      this.renderCrossfade(c.fadeInId)
+      this.setHiddenCrossfadePoints({ ...c, length: 0 })
+      this.emit('crossfade-change', { ...c, length: 0 })
+    })
+
+    if (length > 0) this.crossfades.push({ ...crossfade })
+    this.renderCrossfade(fadeInId)
+    this.setHiddenCrossfadePoints(crossfade)
+    this.emit('crossfade-change', { ...crossfade })
+  }
+
+  // Visible tracks follow the crossfades in their envelope plugin, hidden ones here
+  private setHiddenCrossfadePoints({ fadeOutId, fadeInId, start, length }: MultitrackCrossfade) {
+    const sides = [
+      ['in', fadeInId],
+      ['out', fadeOutId],
+    ] as const
+    sides.forEach(([side, id]) => {
+      const track = this.tracks[this.getTrackIndex(id)]
+      if (!track) return
+      const time = start - track.startPosition
+      this.updateHiddenEnvelope(id, (points) => this.getCrossfadeEnvelope(track, points, side, time, length))
+    })
+  }
+
+  // Replace the fade of a track with a crossfade, and bring the fade back when the crossfade is removed
+  private getCrossfadeEnvelope(
+    track: TrackOptions,
+    points: EnvelopePoint[],
+    side: 'in' | 'out',
+    time: number,
+    length: number,
+  ): EnvelopePoint[] {
+    const savedFades = this.savedFades.get(track.id) || {}
+    this.savedFades.set(track.id, savedFades)
+    const savedFade = savedFades[side]
+
+    if (length > 0 && !savedFade) {
+      savedFades[side] = {
+        points: points.filter((point) => isFadePoint(point, side)).map((point) => ({ ...point })),
+        time: side === 'in' ? track.fadeInEnd : track.fadeOutStart,
+      }
+    }
+
+    const newPoints = applyCrossfade(track, points, side, time, length)
+    if (length > 0 || !savedFade) return newPoints
+
+    delete savedFades[side]
+    if (side === 'in') {
+      track.fadeInEnd = savedFade.time
+    } else {
+      track.fadeOutStart = savedFade.time
+    }
+    return newPoints.concat(savedFade.points).sort((a, b) => a.time - b.time)
+  }
+
+  // Draw the crossfade over the start of the track that fades in
+  private renderCrossfade(fadeInId: TrackId) {
+    const index = this.getTrackIndex(fadeInId)
+    const duration = this.durations[index]
+    if (index === -1 || !duration) return
+    const crossfade = this.crossfades.find((c) => c.fadeInId === fadeInId)
+    if (!crossfade) {
+      this.rendering.setCrossfade(index, null)
+      return
+    }
+    const start = crossfade.start - this.tracks[index].startPosition
+    this.rendering.setCrossfade(index, [start / duration, (start + crossfade.length) / duration])
+  }
+
+  private findCurrentTracks(): number[] {
+    // Find the audios at the current time
+    const indexes: number[] = []
+
+    this.tracks.forEach((track, index) => {
+      const [startCue, endCue] = getTrackCues(track, this.durations[index])
+      if (
+        (track.url || track.options?.media) &&
+        this.currentTime >= track.startPosition + startCue &&
+        this.currentTime < track.startPosition + endCue
+      ) {
+        indexes.push(index)
+      }
+    })
+
+    if (indexes.length === 0) {
+      const minStartTime = Math.min(...this.tracks.filter((t) => t.url).map((track) => track.startPosition))
+      indexes.push(this.tracks.findIndex((track) => track.startPosition === minStartTime))
+    }
+
+    return indexes
+  }
+
+  private getTrackIndex(id: TrackId): number {
+    return this.tracks.findIndex((track) => track.id === id)
+  }
+
+  private hasTrack(id: TrackId): boolean {
+    return this.tracks.some((track) => track.id === id || track.lane === id)
+  }
+
+  // The indexes of all clips of a lane, or of a single track
+  private getLaneIndexes(id: TrackId): number[] {
+    return this.tracks.reduce<number[]>((indexes, track, index) => {
+      if (getLaneId(track) === id) indexes.push(index)
+      return indexes
+    }, [])
+  }
+
+  // The ids of all lanes in order, without the placeholder track
+  private getLaneIds(): TrackId[] {
+    const laneIds = this.tracks.map(getLaneId).filter((id) => id !== PLACEHOLDER_TRACK.id)
+    return laneIds.filter((id, index) => laneIds.indexOf(id) === index)
+  }
+
+  // An id that isn't used by any track or lane yet, nor by the reserved ids
+  private getUniqueTrackId(baseId: TrackId, reserved: TrackId[] = []): TrackId {
+    let id = baseId
+    for (let i = 2; this.hasTrack(id) || reserved.includes(id); i++) {
+      id = `${baseId} (${i})`
+    }
+    return id
+  }
+
+  // The envelope points of a track without the ones generated from its cues and fades
+  private getUserEnvelopePoints(index: number): EnvelopePoint[] | undefined {
+    return this.getEnvelopePoints(index)
+      ?.filter((point) => !isGeneratedPoint(point))
+      .map((point) => ({ ...point }))
+  }
+
+  // A track is silent when it's muted, or when other tracks are soloed and it isn't
+  private isTrackSilenced(index: number): boolean {
+    const track = this.tracks[index]
+    if (track.id === PLACEHOLDER_TRACK.id) return false
+    const hasSolo = this.tracks.some((t) => t.solo)
+    return hasSolo ? !track.solo : !!track.muted
+  }
+
+  // Round a session time to the nearest grid line
+  private snapTime(time: number): number {
+    const { grid } = this.options
+    if (!grid || this.isSnapBypassed) return time
+    const { beat, bar } = getGridIntervals(grid)
+    const step = grid.snapTo === 'bar' ? bar : beat
+    return step > 0 ? Math.round(time / step) * step : time
+  }
+
+  // Snap a time relative to a track, keeping it within the track
+  private snapTrackTime(track: TrackOptions, time: number): number {
+    const snapped = this.snapTime(track.startPosition + time) - track.startPosition
+    const duration = this.durations[this.getTrackIndex(track.id)] || Infinity
+    return Math.min(duration, Math.max(0, snapped))
+  }
+
+  private isScheduled(index: number): boolean {
+    return (
+      this.options.engine === 'webaudio' &&
+      this.audios[index] instanceof WebAudioPlayer &&
+      this.tracks[index].id !== PLACEHOLDER_TRACK.id
+    )
+  }
+
+  private getPlaybackPosition(): number {
+    if (!this.playback) return this.currentTime
+    const elapsed = Math.max(0, this.audioContext.currentTime - this.playback.contextTime)
+    return this.playback.position + elapsed * this.audioRate
+  }
+
+  // Schedule every buffer against the audio context clock, starting from the current time
+  private schedulePlayback(contextTime = this.audioContext.currentTime + SCHEDULE_LOOKAHEAD) {
+    this.playback = { contextTime, position: this.currentTime }
+    const loop = this.loop && this.currentTime < this.loop.end ? this.loop : null
+
+    this.tracks.forEach((track, index) => {
+      if (!this.isScheduled(index)) return
+
+      const audio = this.audios[index] as WebAudioPlayer
+      const duration = this.durations[index]
+      const { startCue = 0, endCue = duration } = track
+      const offset = Math.max(startCue, this.currentTime - track.startPosition)
+      // Stop exactly at the loop end, the next pass is scheduled separately
+      const end = loop ? Math.min(endCue, loop.end - track.startPosition) : endCue
+
+      if (offset >= end) {
+        audio.pause()
+        return
+      }
+
+      const when = contextTime + (track.startPosition + offset - this.currentTime) / this.audioRate
+      audio.schedule(when, offset, end - offset)
+    })
+  }
+
+  // Scheduled buffers keep their timing while playing, so they are rescheduled when the tracks change
+  private reschedulePlayback() {
+    if (!this.playback) return
+    this.updatePosition(this.getPlaybackPosition())
+    this.schedulePlayback()
+  }
+
+  // Jump from the loop end back to the loop start
+  private wrapLoop({ start, end }: MultitrackLoop) {
+    if (this.playback) {
+      // Schedule the next pass to start exactly when the current one ends
+      const contextTime = this.playback.contextTime + (end - this.playback.position) / this.audioRate
+      this.updatePosition(start)
+      this.schedulePlayback(Math.max(contextTime, this.audioContext.currentTime))
+    } else {
+      this.setTime(start)
+    }
+
+    this.emit('loop', { start, end })
   }
 
   private startSync() {
+    if (this.frameRequest) cancelAnimationFrame(this.frameRequest)
+
     const onFrame = () => {
-      const position = this.audios.reduce<number>((pos, audio, index) => {
-        if (!audio.paused) {
-          pos = Math.max(pos, audio.currentTime + this.tracks[index].startPosition)
-        }
-        return pos
-      }, this.currentTime)
+      const position = this.playback
+        ? this.getPlaybackPosition()
+        : this.audios.reduce<number>((pos, audio, index) => {
+            if (!audio.paused) {
+              pos = Math.max(pos, audio.currentTime + this.tracks[index].startPosition)
+            }
+            return pos
+          }, this.currentTime)
 
-      if (position > this.currentTime) {
+      // Buffers are scheduled ahead of time, so the loop is wrapped a bit before its end
+      const wrapTime = this.loop ? this.loop.end - (this.playback ? SCHEDULE_LOOKAHEAD * this.audioRate : 0) : Infinity
+
+      if (this.loop && position >= wrapTime && this.currentTime < wrapTime) {
+        this.wrapLoop(this.loop)
+      } else if (this.playing && this.maxDuration && position >= this.maxDuration) {
+        this.finish()
+      } else if (position > this.currentTime) {
         this.updatePosition(position, true)
       }
 
+      this.applyHiddenEnvelopes()
+      this.updateMeters()
+
       this.frameRequest = requestAnimationFrame(onFrame)
     }
 
@@ -493,24 +1592,58 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
       this.audioContext.resume()
     }
 
+    // Like a media element, start over once the end was reached
+    if (!this.playing && this.maxDuration && this.currentTime >= this.maxDuration) {
+      this.updatePosition(0)
+    }
+
+    const wasPlaying = this.playing
+    this.playing = true
+
+    if (this.options.engine === 'webaudio') {
+      this.schedulePlayback()
+    }
+
     this.startSync()
 
     const indexes = this.findCurrentTracks()
     indexes.forEach((index) => {
-      this.audios[index]?.play()
+      if (!this.isScheduled(index)) this.audios[index]?.play()
     })
+
+    if (!wasPlaying) this.emit('play')
   }
 
   public pause() {
+    const wasPlaying = this.playing
+    const wasScheduled = this.playback !== null
+    const position = this.getPlaybackPosition()
+    this.playing = false
+    this.playback = null
     this.audios.forEach((audio) => audio.pause())
+    if (wasScheduled) this.updatePosition(position)
+    if (wasPlaying) this.emit('pause')
+  }
+
+  /** Pause and go back to the start of the session */
+  public stop() {
+    this.pause()
+    this.setTime(0)
+  }
+
+  // Stop at the end of the session
+  private finish() {
+    this.pause()
+    this.updatePosition(this.maxDuration)
+    this.emit('finish')
   }
 
   /**
    * Gets the current playback rate of the audio tracks.
-   * @returns The playback rate of the first audio track, or 1 if no tracks exist.
+   * @returns The playback rate, 1 by default.
    */
   public getAudioRate(): number {
-    return this.audios.length > 0 ? this.audios[0].playbackRate : 1
+    return this.audioRate
   }
 
   /**
@@ -522,120 +1655,1326 @@ class MultiTrack extends EventEmitter<MultitrackEvents> {
     if (rate < 0.25 || rate > 5.0) {
       throw new Error('Playback rate must be between 0.25 and 5.0')
     }
+    // Scheduled buffers are timed for the old rate, so they are rescheduled from the current position
+    const position = this.getPlaybackPosition()
+    const wasScheduled = this.playback !== null
+
+    this.audioRate = rate
     this.audios.forEach((audio) => {
       audio.playbackRate = rate
     })
+
+    if (wasScheduled) {
+      this.updatePosition(position)
+      this.schedulePlayback()
+    }
   }
 
   public isPlaying() {
-    return this.audios.some((audio) => !audio.paused)
+    return this.playing
   }
 
   public getCurrentTime() {
     return this.currentTime
   }
 
-  /** Position percentage from 0 to 1 */
-  public seekTo(position: number) {
-    const wasPlaying = this.isPlaying()
-    this.updatePosition(position * this.maxDuration)
-    if (wasPlaying) this.play()
+  /** Format a time in seconds like the timeline and the time readout do */
+  public formatTime(time: number): string {
+    const { beat, bar } = this.options.grid ? getGridIntervals(this.options.grid) : { beat: 0, bar: 0 }
+    return formatTimecode(time, this.options.timeFormat || 'seconds', { frameRate: this.options.frameRate, beat, bar })
+  }
+
+  // Label the timeline in the chosen time format, with a label on every bar for bars and beats
+  private getTimelineFormatOptions(): Partial<TimelinePluginOptions> {
+    const { timeFormat, grid } = this.options
+    if (!timeFormat) return {}
+    const formatOptions: Partial<TimelinePluginOptions> = { formatTimeCallback: (time) => this.formatTime(time) }
+
+    const { beat, bar } = grid ? getGridIntervals(grid) : { beat: 0, bar: 0 }
+    if (timeFormat === 'bbt' && beat) {
+      // Count the notches as well, the intervals in seconds can miss a bar line by a rounding error
+      formatOptions.timeInterval = beat
+      formatOptions.primaryLabelInterval = bar
+      formatOptions.primaryLabelSpacing = Math.round(bar / beat)
+      formatOptions.secondaryLabelInterval = bar
+    }
+    return formatOptions
+  }
+
+  private renderTimeReadout() {
+    if (!this.options.timeReadout) return
+    this.rendering.setTimeReadout(`${this.formatTime(this.currentTime)} / ${this.formatTime(this.maxDuration)}`)
+  }
+
+  /** Position percentage from 0 to 1 */
+  public seekTo(position: number) {
+    this.setTime(position * this.maxDuration)
+  }
+
+  /** Set time in seconds */
+  public setTime(time: number) {
+    const wasPlaying = this.isPlaying()
+    this.updatePosition(time)
+    // After the update, so that listeners see the new current time
+    this.emit('seeking', time)
+    if (wasPlaying) this.play()
+  }
+
+  /** Change the tempo grid, or pass null to remove it */
+  public setGrid(grid: MultitrackGrid | null) {
+    this.options.grid = grid ?? undefined
+    this.rendering.renderGrid()
+  }
+
+  /** Loop playback between two times in seconds */
+  public setLoop(start: number, end: number) {
+    start = Math.max(0, start)
+    end = Math.min(this.maxDuration || end, end)
+    if (end - start < MIN_LOOP_LENGTH) return
+
+    this.loop = { start, end }
+    this.renderLoop()
+    if (this.playback) this.schedulePlayback()
+    this.emit('loop-change', { ...this.loop })
+  }
+
+  public clearLoop() {
+    if (!this.loop) return
+    this.loop = null
+    this.renderLoop()
+    if (this.playback) this.schedulePlayback()
+    this.emit('loop-change', null)
+  }
+
+  public getLoop(): MultitrackLoop | null {
+    return this.loop ? { ...this.loop } : null
+  }
+
+  private renderLoop() {
+    if (this.loop && this.maxDuration) {
+      this.rendering.setLoop(this.loop.start / this.maxDuration, this.loop.end / this.maxDuration)
+    } else {
+      this.rendering.setLoop(null)
+    }
+  }
+
+  /** Get the session markers followed by the markers of every track */
+  public getMarkers(): MultitrackMarker[] {
+    return this.markers.map((marker) => ({ ...marker })).concat(this.tracks.flatMap(getTrackMarkers))
+  }
+
+  private getMarker(id: string): MultitrackMarker | undefined {
+    return this.getMarkers().find((marker) => marker.id === id)
+  }
+
+  /** Add a marker to a track, or to the session timeline if no track id is given */
+  public addMarker(options: MarkerOptions & { trackId?: TrackId }): MultitrackMarker | null {
+    const { trackId, ...markerOptions } = options
+    const marker = withMarkerId(markerOptions)
+    if (this.getMarker(marker.id)) return null
+
+    if (trackId === undefined) {
+      this.markers.push(marker)
+      this.renderMarkers()
+    } else {
+      const track = this.tracks[this.getTrackIndex(trackId)]
+      if (!track || track.id === PLACEHOLDER_TRACK.id) return null
+      track.markers = (track.markers || []).concat(marker)
+      this.renderTrackMarkers(track)
+    }
+
+    const newMarker = this.getMarker(marker.id)
+    if (newMarker) this.emit('marker-change', { ...newMarker, removed: false })
+    return newMarker || null
+  }
+
+  /** Move, rename or recolor a marker */
+  public updateMarker(id: string, changes: Partial<Omit<MarkerOptions, 'id'>>) {
+    const sessionMarker = this.markers.find((marker) => marker.id === id)
+    const track = sessionMarker ? undefined : this.tracks.find((t) => t.markers?.some((marker) => marker.id === id))
+
+    if (sessionMarker) {
+      Object.assign(sessionMarker, changes)
+      this.renderMarkers()
+    } else if (track?.markers) {
+      track.markers = track.markers.map((marker) => (marker.id === id ? { ...marker, ...changes } : marker))
+      this.renderTrackMarkers(track)
+    } else {
+      return
+    }
+
+    const marker = this.getMarker(id)
+    if (marker) this.emit('marker-change', { ...marker, removed: false })
+  }
+
+  public removeMarker(id: string) {
+    const marker = this.getMarker(id)
+    if (!marker) return
+
+    if (marker.trackId === undefined) {
+      this.markers = this.markers.filter((m) => m.id !== id)
+      this.renderMarkers()
+    } else {
+      const track = this.tracks[this.getTrackIndex(marker.trackId)]
+      track.markers = track.markers?.filter((m) => m.id !== id)
+      this.renderTrackMarkers(track)
+    }
+
+    this.emit('marker-change', { ...marker, removed: true })
+  }
+
+  /** Select a time range in some tracks, or pass null to clear the selection */
+  public setSelection(selection: MultitrackSelection | null) {
+    if (!selection && !this.selection) return
+
+    if (selection) {
+      const laneIds = this.getLaneIds()
+      const start = Math.max(0, Math.min(selection.start, selection.end))
+      const end = Math.max(selection.start, selection.end)
+      const trackIds = selection.trackIds.filter((id) => laneIds.includes(id))
+      this.selection = end > start && trackIds.length ? { start, end, trackIds } : null
+    } else {
+      this.selection = null
+    }
+
+    this.renderSelection()
+    this.emit('selection-change', this.getSelection())
+  }
+
+  public getSelection(): MultitrackSelection | null {
+    return this.selection ? { ...this.selection, trackIds: [...this.selection.trackIds] } : null
+  }
+
+  private renderSelection() {
+    const { selection, maxDuration } = this
+    if (!selection || !maxDuration) {
+      this.rendering.setSelection(null)
+      return
+    }
+    this.rendering.setSelection([selection.start / maxDuration, selection.end / maxDuration], selection.trackIds)
+  }
+
+  /** Copy the selected range of the selected tracks, to paste it later */
+  public copySelection() {
+    if (!this.selection) return
+    const { start, end } = this.selection
+
+    const lanes = this.getSelectedLanes().map(({ id, clips }) => ({
+      id,
+      clips: clips.flatMap((clip) => {
+        // Clips without a URL can't be loaded again
+        const part = clip.url ? trimClip(clip, start, end) : null
+        return part ? [{ ...part, startPosition: part.startPosition - start }] : []
+      }),
+    }))
+
+    this.clipboard = { length: end - start, lanes }
+  }
+
+  /** Copy and delete the selected range */
+  public cutSelection(): Promise<void> {
+    this.copySelection()
+    return this.deleteSelection()
+  }
+
+  /** Remove the selected range from the selected tracks, everything after it moves to the left */
+  public async deleteSelection() {
+    if (!this.selection) return
+    const { start, end } = this.selection
+    const getNewId = this.createIdGenerator()
+
+    const before = this.getSelectedLanes()
+    const after = before.map((lane) => ({ ...lane, clips: rippleClips(lane.clips, start, end, start - end, getNewId) }))
+
+    this.setSelection(null)
+    await this.editLanes(before, after)
+  }
+
+  /**
+   * Insert the copied range at the cursor, everything after it moves to the right.
+   * It's pasted into the selected tracks, or into the tracks it was copied from.
+   */
+  public async paste() {
+    const { clipboard } = this
+    if (!clipboard) return
+    const time = this.currentTime
+    const getNewId = this.createIdGenerator()
+
+    const laneIds = this.selection ? this.selection.trackIds : clipboard.lanes.map(({ id }) => id)
+    const targets = clipboard.lanes.flatMap(({ clips }, i) => {
+      const laneId = laneIds[i]
+      return laneId !== undefined && this.getLaneIndexes(laneId).length ? [{ laneId, clips }] : []
+    })
+
+    if (!targets.length) return
+
+    const before = targets.map(({ laneId }) => this.getLaneSnapshot(laneId))
+    const after = before.map((lane, i) => {
+      const pasted = targets[i].clips.map((clip) =>
+        copyClip({ ...clip, startPosition: clip.startPosition + time }, getNewId(clip.id)),
+      )
+      return { ...lane, clips: rippleClips(lane.clips, time, time, clipboard.length, getNewId).concat(pasted) }
+    })
+
+    await this.editLanes(before, after)
+    this.setSelection({ start: time, end: time + clipboard.length, trackIds: targets.map(({ laneId }) => laneId) })
+  }
+
+  // New ids for the clips of one edit, unique among each other too
+  private createIdGenerator(): (baseId: TrackId) => TrackId {
+    const reserved: TrackId[] = []
+    return (baseId) => {
+      const id = this.getUniqueTrackId(baseId, reserved)
+      reserved.push(id)
+      return id
+    }
+  }
+
+  private getSelectedLanes(): LaneSnapshot[] {
+    const laneIds = this.getLaneIds()
+    return (this.selection?.trackIds || []).filter((id) => laneIds.includes(id)).map((id) => this.getLaneSnapshot(id))
+  }
+
+  private getLaneSnapshot(laneId: TrackId): LaneSnapshot {
+    const indexes = this.getLaneIndexes(laneId)
+    const { title, options, draggable, volume, pan, muted, solo, effects } = this.tracks[indexes[0]]
+    return {
+      id: laneId,
+      index: this.getLaneIds().indexOf(laneId),
+      settings: { title, options, draggable, volume, pan, muted, solo, effects },
+      clips: indexes.map((index) => this.getClipOptions(index)),
+    }
+  }
+
+  // A track as a clip with explicit cues
+  private getClipOptions(index: number): ClipOptions {
+    const track = this.tracks[index]
+    const [startCue, endCue] = getTrackCues(track, this.durations[index])
+    return {
+      id: track.id,
+      url: track.url,
+      peaks: track.peaks,
+      peaksBundle: track.peaksBundle,
+      startPosition: track.startPosition,
+      startCue,
+      endCue,
+      fadeInEnd: track.fadeInEnd,
+      fadeOutStart: track.fadeOutStart,
+      volume: track.volume,
+      envelope: this.getUserEnvelopePoints(index) ?? track.envelope,
+      draggable: track.draggable,
+      markers: track.markers,
+    }
+  }
+
+  // Apply an edit of several lanes as a single undoable step
+  private async editLanes(before: LaneSnapshot[], after: LaneSnapshot[]) {
+    await Promise.all(after.map((lane) => this.setLaneClips(lane)))
+    this.history.push({
+      undo: () => Promise.all(before.map((lane) => this.setLaneClips(lane))),
+      redo: () => Promise.all(after.map((lane) => this.setLaneClips(lane))),
+    })
+  }
+
+  // Bring a lane to a snapshot: move and trim the clips it still has, add the new ones and remove the others
+  private async setLaneClips({ id, index, settings, clips }: LaneSnapshot) {
+    if (!this.getLaneIndexes(id).length) {
+      // All clips of the lane were removed, so it's added again
+      await this.appendTrack({ ...settings, id, startPosition: 0, clips })
+      this.moveTrack(id, index)
+      return
+    }
+
+    const newClips = clips.filter((clip) => this.getTrackIndex(clip.id) === -1)
+    await Promise.all(newClips.map((clip) => this.addClip(id, clip)))
+
+    this.getLaneIndexes(id)
+      .reverse()
+      .forEach((i) => {
+        if (!clips.some((clip) => clip.id === this.tracks[i].id)) this.removeTrackAt(i)
+      })
+
+    clips.forEach((clip) => {
+      const i = this.getTrackIndex(clip.id)
+      if (i === -1 || newClips.includes(clip)) return
+      this.setTrackCues(i, clip.startCue ?? 0, clip.endCue ?? this.durations[i])
+      if (this.tracks[i].startPosition !== clip.startPosition) this.applyStartPosition(i, clip.startPosition)
+      this.tracks[i].markers = clip.markers
+      this.renderTrackMarkers(this.tracks[i])
+    })
+
+    this.initDurations(this.durations)
+    this.updatePosition(this.currentTime)
+  }
+
+  // Move a dragged marker, the move can be undone
+  private moveMarker(id: string, time: number) {
+    const prevTime = this.getMarker(id)?.time
+    if (prevTime === undefined) return
+    this.updateMarker(id, { time })
+    if (time === prevTime) return
+    this.history.push({
+      undo: () => this.updateMarker(id, { time: prevTime }),
+      redo: () => this.updateMarker(id, { time }),
+    })
+  }
+
+  private renderMarkers() {
+    if (!this.maxDuration) return
+    this.rendering.setMarkers(
+      this.markers.map(({ id, time, label, color }) => ({ id, position: time / this.maxDuration, label, color })),
+    )
+  }
+
+  // Draw the markers of a track as draggable regions of its waveform
+  private renderTrackMarkers(track: SessionTrack) {
+    const markerRegions = this.markerRegions.get(track.id)
+    if (!markerRegions) return
+
+    markerRegions.regions.forEach((region) => region.remove())
+    markerRegions.regions = getTrackMarkers(track).map(({ id, time, label, color }) => {
+      const region = markerRegions.plugin.addRegion({ id, start: time, content: label, color, resize: false })
+      region.on('update-end', () => this.moveMarker(id, this.snapTrackTime(track, region.start)))
+      region.on('click', () => {
+        const marker = this.getMarker(id)
+        if (marker) this.emit('marker-click', marker)
+      })
+      return region
+    })
+  }
+
+  public zoom(pxPerSec: number) {
+    this.options.minPxPerSec = pxPerSec
+    this.rendering.setMainWidth(this.durations, this.maxDuration)
+    this.rendering.setContainerOffsets()
+    this.wavesurfers.forEach((ws, index) => {
+      if (!ws || !this.tracks[index].url) return
+      // A finer or coarser level of the peaks is loaded when the zoom crosses into it
+      this.updateWavesurferPeaks(index)
+      // WaveSurfer can't zoom before it's decoded, e.g. right after its lane was scrolled into view
+      if (ws.getDecodedData()) {
+        ws.zoom(pxPerSec)
+      } else {
+        ws.once('decode', () => ws.zoom(this.options.minPxPerSec ?? pxPerSec))
+      }
+    })
+  }
+
+  public addTrack(track: TrackOptions) {
+    const index = this.tracks.findIndex((t) => t.id === track.id)
+    if (index !== -1) {
+      track = { ...track, markers: track.markers?.map(withMarkerId) }
+      this.tracks[index] = track
+
+      this.initAudio(track).then((audio) => {
+        this.audios[index] = audio
+        this.panners[index]?.disconnect()
+        this.panners[index] = this.connectAudio(audio, track)
+        //ORIGINAL CODE: this.durations[index] = audio.duration
+        this.durations[index] =
+          typeof track.options?.duration === 'number' ? track.options.duration : getAudioDuration(audio)
+        this.initDurations(this.durations)
+
+        const container = this.rendering.containers[index]
+        container.innerHTML = ''
+
+        this.wavesurfers[index]?.destroy()
+        this.hiddenEnvelopes.delete(track.id)
+        this.wavesurfers[index] = this.mountWavesurfer(index)
+
+        this.emit('canplay')
+      })
+    }
+  }
+
+  /** Add a new track below the existing ones */
+  public async appendTrack(track: TrackOptions) {
+    const newTracks = expandClips(track).map(normalizeTrack)
+    if (this.hasTrack(track.id) || newTracks.some(({ id }) => this.hasTrack(id))) return
+
+    const tracks = this.tracks
+    const audios = await Promise.all(newTracks.map((newTrack) => this.initAudio(newTrack)))
+    // The session was reloaded or the track was added while loading
+    if (tracks !== this.tracks || this.hasTrack(track.id)) return
+
+    // Keep the placeholder track last
+    newTracks.forEach((newTrack, i) => this.insertTrack(newTrack, audios[i], this.tracks.length - 1))
+    this.updatePosition(this.currentTime)
+  }
+
+  // Decode a dropped file or URL and place it at the drop time, in a new lane if it wasn't dropped onto one
+  private async loadDroppedAudio(laneId: TrackId | null, time: number, data: DataTransfer) {
+    const file = Array.from(data.files).find((f) => f.type.startsWith('audio/'))
+    const link = file ? null : getDroppedUrl(data)
+    if (!file && !link) return
+
+    const laneIndexes = laneId === null ? [] : this.getLaneIndexes(laneId)
+    const emptyTrack = laneIndexes.length === 1 && !this.tracks[laneIndexes[0]].url ? this.tracks[laneIndexes[0]] : null
+    // Errors before the name is known are reported for what was dropped
+    let id: TrackId = emptyTrack ? emptyTrack.id : file ? file.name : (link as string)
+
+    const tracks = this.tracks
+    let url = ''
+    let name: string
+    let blob: Blob
+    let buffer: AudioBuffer
+    try {
+      // A malformed URL or percent-escape throws too
+      url = file ? URL.createObjectURL(file) : new URL(link as string, document.baseURI).href
+      name = file ? file.name : decodeURIComponent(new URL(url).pathname.split('/').pop() || url)
+      if (!emptyTrack) id = this.getUniqueTrackId(name)
+
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+      blob = await response.blob()
+      buffer = await this.audioContext.decodeAudioData(await blob.arrayBuffer())
+    } catch (err) {
+      if (file && url) URL.revokeObjectURL(url)
+      this.emit('track-error', { id, error: err instanceof Error ? err : new Error(String(err)) })
+      return
+    }
+    // Another session was loaded in the meantime
+    if (tracks !== this.tracks) return
+
+    this.decodedBuffers.set(url, Promise.resolve(buffer))
+
+    const startPosition = Math.max(0, this.snapTime(time))
+    // The waveform is drawn from the peaks, not from the whole decoded audio
+    const peaksBundle = await generatePeaks(buffer)
+    if (tracks !== this.tracks) return
+    const clip = { id, url, peaksBundle, startPosition, draggable: true }
+
+    if (emptyTrack) {
+      this.addTrack({ ...emptyTrack, ...clip, draggable: emptyTrack.draggable ?? true })
+    } else if (laneIndexes.length) {
+      await this.addClip(laneId as TrackId, clip)
+    } else {
+      await this.appendTrack(clip)
+    }
+    if (!this.hasTrack(id)) return
+
+    const { numberOfChannels, sampleRate, duration } = buffer
+    this.emit('track-added', {
+      id,
+      lane: laneId ?? id,
+      startPosition,
+      file: { name, type: blob.type || file?.type || '', size: blob.size, duration, sampleRate, numberOfChannels },
+    })
+  }
+
+  /** Add a clip to an existing lane */
+  public async addClip(laneId: TrackId, clip: ClipOptions) {
+    const laneIndexes = this.getLaneIndexes(laneId)
+    // A clip can have the id of its own lane, like a single track
+    const isTaken = () => this.getTrackIndex(clip.id) !== -1 || (clip.id !== laneId && this.hasTrack(clip.id))
+    if (!laneIndexes.length || isTaken()) return
+
+    const { title, options, draggable, volume, pan, muted, solo, effects } = this.tracks[laneIndexes[0]]
+    const laneSettings = { title, options, draggable, volume, pan, muted, solo, effects }
+    const newTrack = normalizeTrack({ ...laneSettings, ...clip, lane: laneId })
+
+    const tracks = this.tracks
+    const audio = await this.initAudio(newTrack)
+    if (tracks !== this.tracks || isTaken()) return
+
+    // A single track becomes a lane once it has more than one clip
+    const indexes = this.getLaneIndexes(laneId)
+    if (!indexes.length) return
+    indexes.forEach((index) => (this.tracks[index].lane = laneId))
+
+    this.insertTrack(newTrack, audio, indexes[indexes.length - 1] + 1)
+    this.updatePosition(this.currentTime)
+  }
+
+  private insertTrack(track: SessionTrack, audio: HTMLAudioElement | WebAudioPlayer, index: number) {
+    const duration = typeof track.options?.duration === 'number' ? track.options.duration : getAudioDuration(audio)
+    this.tracks.splice(index, 0, track)
+    this.audios.splice(index, 0, audio)
+    this.durations.splice(index, 0, duration)
+    this.panners.splice(index, 0, this.connectAudio(audio, track))
+    this.envelopes.splice(index, 0, undefined)
+    this.rendering.addTrack(track, index)
+
+    this.initDurations(this.durations)
+    this.wavesurfers.splice(index, 0, this.mountWavesurfer(index))
+    this.reschedulePlayback()
+  }
+
+  /** Remove a track with all its clips, or a single clip */
+  public removeTrack(id: TrackId) {
+    const laneIndexes = this.getLaneIndexes(id)
+    const indexes = laneIndexes.length ? laneIndexes : [this.getTrackIndex(id)]
+    if (indexes.includes(-1) || id === PLACEHOLDER_TRACK.id) return
+
+    indexes.reverse().forEach((index) => this.removeTrackAt(index))
+
+    this.initDurations(this.durations)
+    this.updatePosition(this.currentTime)
+  }
+
+  private removeTrackAt(index: number) {
+    const { id } = this.tracks[index]
+    this.crossfades
+      .filter((c) => c.fadeInId === id || c.fadeOutId === id)
+      .forEach((c) => this.setCrossfade({ ...c, length: 0 }))
+
+    const audio = this.audios[index]
+    const url = audio.src
+    audio.pause()
+    audio.src = ''
+    this.wavesurfers[index]?.destroy()
+    this.panners[index]?.disconnect()
+    this.trackEffects.get(id)?.forEach((node) => node.disconnect())
+    this.trackEffects.delete(id)
+    this.trackPeaks.delete(id)
+    this.markerRegions.delete(id)
+    this.hiddenEnvelopes.delete(id)
+    this.savedFades.delete(id)
+    const laneId = getLaneId(this.tracks[index])
+    if (this.getLaneIndexes(laneId).length === 1) this.analysers.delete(laneId)
+
+    this.tracks.splice(index, 1)
+    this.audios.splice(index, 1)
+    this.durations.splice(index, 1)
+    this.panners.splice(index, 1)
+    this.envelopes.splice(index, 1)
+    this.wavesurfers.splice(index, 1)
+    this.rendering.removeTrack(index)
+
+    // Other clips can play the same file
+    if (!this.audios.some((other) => other.src === url)) this.decodedBuffers.delete(url)
+  }
+
+  /** Move a track with all its clips to a new position, the placeholder track always stays last */
+  public moveTrack(id: TrackId, newIndex: number) {
+    const laneIds = this.getLaneIds()
+    const index = laneIds.indexOf(id)
+    if (index === -1) return
+
+    const toIndex = Math.max(0, Math.min(laneIds.length - 1, newIndex))
+    if (toIndex === index) return
+
+    moveItem(laneIds, index, toIndex)
+    const order = laneIds.flatMap((laneId) => this.getLaneIndexes(laneId)).concat(this.tracks.length - 1)
+
+    reorderItems(this.tracks, order)
+    reorderItems(this.audios, order)
+    reorderItems(this.durations, order)
+    reorderItems(this.panners, order)
+    reorderItems(this.envelopes, order)
+    reorderItems(this.wavesurfers, order)
+    this.rendering.reorder(order)
+  }
+
+  /** Cut a track in two at a session time, the second part becomes a new clip in the same lane */
+  public splitTrackAt(id: TrackId, time: number): Promise<TrackId | null> {
+    return this.splitTrack(id, time, true)
+  }
+
+  private async splitTrack(id: TrackId, time: number, isNewEdit: boolean): Promise<TrackId | null> {
+    const index = this.getTrackIndex(id)
+    if (index === -1 || id === PLACEHOLDER_TRACK.id) return null
+
+    const track = this.tracks[index]
+    const [startCue, endCue] = getTrackCues(track, this.durations[index])
+    const splitTime = time - track.startPosition
+    if (splitTime < startCue + MIN_CLIP_LENGTH || splitTime > endCue - MIN_CLIP_LENGTH) return null
+
+    const laneId = getLaneId(track)
+    const newTrack: SessionTrack = {
+      ...track,
+      id: this.getUniqueTrackId(id),
+      lane: laneId,
+      startCue: splitTime,
+      fadeInEnd: undefined,
+      intro: undefined,
+      envelope: this.getUserEnvelopePoints(index) ?? track.envelope,
+    }
+
+    const tracks = this.tracks
+    const audio = await this.initAudio(newTrack)
+    const newIndex = this.getTrackIndex(id)
+    if (tracks !== this.tracks || newIndex === -1 || this.hasTrack(newTrack.id)) return null
+
+    // A single track becomes a lane once it has more than one clip
+    this.getLaneIndexes(laneId).forEach((i) => (this.tracks[i].lane = laneId))
+    this.setTrackCues(newIndex, startCue, splitTime)
+
+    // The markers go with the part they are in
+    const { markers } = this.tracks[newIndex]
+    this.tracks[newIndex].markers = markers?.filter((marker) => marker.time < splitTime)
+    this.renderTrackMarkers(this.tracks[newIndex])
+    newTrack.markers = markers?.filter((marker) => marker.time >= splitTime)
+
+    this.insertTrack(newTrack, audio, newIndex + 1)
+    this.updatePosition(this.currentTime)
+
+    if (isNewEdit) {
+      this.history.push({
+        undo: () => {
+          this.removeTrack(newTrack.id)
+          const i = this.getTrackIndex(id)
+          if (i === -1) return
+          this.setTrackCues(i, startCue, endCue)
+          this.tracks[i].markers = markers
+          this.renderTrackMarkers(this.tracks[i])
+        },
+        redo: () => this.splitTrack(id, time, false),
+      })
+    }
+
+    return newTrack.id
+  }
+
+  /**
+   * Copy a track with all its clips to a new lane right below it.
+   * A single clip of a lane is copied within its lane, right after itself.
+   */
+  public duplicateTrack(id: TrackId): Promise<TrackId | null> {
+    return this.duplicate(id, true)
+  }
+
+  private async duplicate(id: TrackId, isNewEdit: boolean): Promise<TrackId | null> {
+    const laneIndexes = this.getLaneIndexes(id)
+    const index = this.getTrackIndex(id)
+    if ((!laneIndexes.length && index === -1) || id === PLACEHOLDER_TRACK.id) return null
+
+    const copyTrack = (i: number, newId: TrackId): TrackOptions => {
+      const track = omit(this.tracks[i], ['lane'])
+      // The copied markers get new ids
+      const markers = track.markers?.map(({ time, label, color }) => ({ time, label, color }))
+      return { ...track, id: newId, markers, envelope: this.getUserEnvelopePoints(i) ?? track.envelope }
+    }
+
+    const newId = this.getUniqueTrackId(id)
+
+    if (laneIndexes.length) {
+      const laneIndex = this.getLaneIds().indexOf(id)
+      const firstClip = this.tracks[laneIndexes[0]]
+      if (firstClip.lane !== undefined) {
+        const { title, options, draggable, volume, pan, muted, solo, effects } = firstClip
+        const clips = laneIndexes.map((i) => copyTrack(i, this.getUniqueTrackId(this.tracks[i].id)))
+        const laneSettings = { title, options, draggable, volume, pan, muted, solo, effects }
+        await this.appendTrack({ id: newId, startPosition: 0, ...laneSettings, clips })
+      } else {
+        await this.appendTrack(copyTrack(laneIndexes[0], newId))
+      }
+      if (!this.hasTrack(newId)) return null
+      this.moveTrack(newId, laneIndex + 1)
+    } else {
+      const track = this.tracks[index]
+      const [startCue, endCue] = getTrackCues(track, this.durations[index])
+      const startPosition = track.startPosition + endCue - startCue
+      await this.addClip(getLaneId(track), { ...copyTrack(index, newId), startPosition })
+      if (!this.hasTrack(newId)) return null
+    }
+
+    if (isNewEdit) {
+      this.history.push({
+        undo: () => this.removeTrack(newId),
+        redo: () => this.duplicate(id, false),
+      })
+    }
+
+    return newId
+  }
+
+  /** Get a serializable snapshot of the session */
+  public getState(): MultitrackState {
+    const tracks: MultitrackTrackState[] = []
+
+    this.tracks.forEach((track, index) => {
+      if (track.id === PLACEHOLDER_TRACK.id) return
+
+      const { options, lane, effects } = track
+      const state: MultitrackTrackState = omit(track, ['peaks', 'peaksBundle', 'options', 'lane', 'effects'])
+
+      if (effects) {
+        state.effects = effects.filter(isEffectPreset)
+      }
+
+      if (options) {
+        state.options = omit(options, ['media', 'peaks', 'plugins', 'renderFunction'])
+      }
+
+      const envelopePoints = this.getUserEnvelopePoints(index)
+      if (envelopePoints) {
+        state.envelope = envelopePoints
+      }
+
+      if (lane === undefined) {
+        tracks.push(state)
+        return
+      }
+
+      // Group the clips of a lane back together
+      let laneState = tracks.find((t) => t.id === lane && t.clips)
+      if (!laneState) {
+        const { title, options, draggable, volume, pan, muted, solo, effects } = state
+        const laneSettings = { title, options, draggable, volume, pan, muted, solo, effects }
+        laneState = { id: lane, startPosition: 0, ...laneSettings, clips: [] }
+        tracks.push(laneState)
+      }
+      laneState.clips?.push(omit(state, ['title', 'options', 'pan', 'muted', 'solo', 'effects']))
+    })
+
+    return {
+      version: STATE_VERSION,
+      tracks,
+      zoom: this.options.minPxPerSec ?? 0,
+      currentTime: this.currentTime,
+      masterVolume: this.masterGain.gain.value,
+      loop: this.getLoop(),
+      markers: this.markers.map((marker) => ({ ...marker })),
+      crossfades: this.getCrossfades(),
+    }
+  }
+
+  /** Replace the whole session with a snapshot from getState */
+  public loadState(json: MultitrackState | string) {
+    const state: MultitrackState = typeof json === 'string' ? JSON.parse(json) : json
+    if (!state || !Array.isArray(state.tracks)) {
+      throw new Error('Invalid multitrack state')
+    }
+    if (state.version > STATE_VERSION) {
+      throw new Error(`Unsupported multitrack state version: ${state.version}`)
+    }
+
+    this.pause()
+    this.unload()
+
+    this.options.minPxPerSec = state.zoom
+    this.masterGain.gain.value = state.masterVolume ?? 1
+    this.tracks = normalizeTracks(state.tracks)
+    this.markers = state.markers?.map(withMarkerId) || []
+    this.rendering = this.createRendering()
+    this.history.clear()
+
+    this.once('canplay', () => {
+      if (state.loop) this.setLoop(state.loop.start, state.loop.end)
+      state.crossfades?.forEach((crossfade) => {
+        if (this.hasTrack(crossfade.fadeOutId) && this.hasTrack(crossfade.fadeInId)) this.setCrossfade(crossfade)
+      })
+      this.setTime(state.currentTime || 0)
+    })
+    this.load()
+  }
+
+  // Tear down everything that belongs to the current session
+  private unload() {
+    if (this.frameRequest) cancelAnimationFrame(this.frameRequest)
+    this.frameRequest = null
+
+    this.subscriptions.forEach((unsubscribe) => unsubscribe())
+    this.subscriptions = []
+
+    this.rendering.destroy()
+
+    this.audios.forEach((audio) => {
+      audio.pause()
+      audio.src = ''
+    })
+
+    this.wavesurfers.forEach((ws) => {
+      ws?.destroy()
+    })
+
+    this.panners.forEach((panner) => panner.disconnect())
+    this.trackEffects.forEach((nodes) => nodes.forEach((node) => node.disconnect()))
+    this.trackEffects.clear()
+    this.analysers.clear()
+    this.trackPeaks.clear()
+    this.decodedBuffers.clear()
+    this.markerRegions.clear()
+    this.hiddenEnvelopes.clear()
+    this.envelopeSetters.clear()
+
+    this.audios = []
+    this.wavesurfers = []
+    this.envelopes = []
+    this.panners = []
+    this.durations = []
+    this.currentTime = 0
+    this.maxDuration = 0
+    this.playback = null
+    this.loop = null
+    this.selection = null
+    this.crossfades = []
+    this.savedFades.clear()
+  }
+
+  public destroy() {
+    this.unload()
+
+    if (this.options.mediaSession && 'mediaSession' in navigator) {
+      const actions: MediaSessionAction[] = ['play', 'pause', 'stop', 'seekto', 'seekbackward', 'seekforward']
+      actions.forEach((action) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null)
+        } catch {
+          // The action isn't supported by this browser
+        }
+      })
+      navigator.mediaSession.metadata = null
+      navigator.mediaSession.playbackState = 'none'
+    }
+  }
+
+  // See https://developer.mozilla.org/en-US/docs/Web/API/HTMLMediaElement/setSinkId
+  public setSinkId(sinkId: string): Promise<void[]> {
+    // Tracks scrolled out of view have no WaveSurfer, so the audios are switched directly
+    return Promise.all(
+      this.audios.map((audio) => (audio as { setSinkId: (id: string) => Promise<void> }).setSinkId(sinkId)),
+    )
+  }
+
+  public setTrackVolume(index: number, volume: number) {
+    if (!this.tracks[index]) return
+    this.tracks[index].volume = volume
+    const control = this.envelopes[index] || this.wavesurfers[index]
+    if (control) {
+      control.setVolume(volume)
+    } else if (this.audios[index]) {
+      this.audios[index].volume = volume
+    }
+    this.rendering.setHeaderState(getLaneId(this.tracks[index]), { volume })
+  }
+
+  public setTrackMuted(id: TrackId, muted: boolean) {
+    const indexes = this.getLaneIndexes(id)
+    if (!indexes.length || !!this.tracks[indexes[0]].muted === muted) return
+    indexes.forEach((index) => (this.tracks[index].muted = muted))
+    this.updatePosition(this.currentTime)
+    this.rendering.setHeaderState(id, { muted })
+    this.emit('mute-change', { id, muted })
+  }
+
+  /** Soloed tracks are heard regardless of their mute state, all other tracks are silenced */
+  public setTrackSolo(id: TrackId, solo: boolean) {
+    const indexes = this.getLaneIndexes(id)
+    if (!indexes.length || !!this.tracks[indexes[0]].solo === solo) return
+    indexes.forEach((index) => (this.tracks[index].solo = solo))
+    this.updatePosition(this.currentTime)
+    this.rendering.setHeaderState(id, { solo })
+    this.emit('solo-change', { id, solo })
+  }
+
+  public getMixerState(): MultitrackMixerState {
+    return this.getLaneIds().map((id) => {
+      const index = this.getLaneIndexes(id)[0]
+      const track = this.tracks[index]
+      return {
+        id,
+        volume: this.audios[index]?.volume ?? track.volume ?? 1,
+        pan: track.pan ?? 0,
+        muted: !!track.muted,
+        solo: !!track.solo,
+        audible: !this.isTrackSilenced(index),
+      }
+    })
+  }
+
+  /** Pan a track from -1 (left) to 1 (right) */
+  public setTrackPan(id: TrackId, pan: number) {
+    this.getLaneIndexes(id).forEach((index) => {
+      this.tracks[index].pan = clampPan(pan)
+      if (this.panners[index]) this.panners[index].pan.value = this.tracks[index].pan as number
+    })
+  }
+
+  /** Set the volume of the master bus that all tracks are mixed into */
+  public setMasterVolume(volume: number) {
+    this.masterGain.gain.value = Math.max(0, volume)
+  }
+
+  public getMasterVolume(): number {
+    return this.masterGain.gain.value
+  }
+
+  public setTrackStartPosition(index: number, value: number) {
+    const track = this.tracks[index]
+    if (!track.draggable) return
+
+    const newStartPosition = this.snapTime(value)
+    const minStart = this.options.dragBounds ? -(track.startCue || 0) : -this.durations[index] - 1
+    const maxStart = this.maxDuration - this.durations[index]
+
+    if (newStartPosition >= minStart && newStartPosition <= maxStart) {
+      const prevStartPosition = track.startPosition
+      this.applyStartPosition(index, newStartPosition)
+      this.updateCrossfades(track.id)
+      this.pushStartPositionChange(track.id, prevStartPosition, newStartPosition)
+    }
+  }
+
+  /** Revert the last edit */
+  public undo(): boolean {
+    return this.history.undo()
+  }
+
+  /** Re-apply the last reverted edit */
+  public redo(): boolean {
+    return this.history.redo()
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo()
+  }
+
+  /**
+   * Render the whole session offline into a single AudioBuffer and a WAV blob.
+   * Start positions, cues, volumes, fades and envelope points are applied the same way as during playback.
+   * Rejects if an effect is an audio node that can't be copied, pass a function that creates it instead.
+   */
+  public async exportMix(options: MultitrackExportOptions = {}): Promise<MultitrackExportResult> {
+    const { sampleRate = this.audioContext.sampleRate, numberOfChannels = 2 } = options
+    const length = Math.max(1, Math.ceil(this.maxDuration * sampleRate))
+    const offlineContext = new OfflineAudioContext(numberOfChannels, length, sampleRate)
+    const masterGain = offlineContext.createGain()
+    masterGain.gain.value = this.masterGain.gain.value
+    masterGain.connect(offlineContext.destination)
+
+    const buffers = await Promise.all(this.tracks.map((_, index) => this.decodeTrack(index)))
+    buffers.forEach((buffer, index) => {
+      if (buffer && !this.isTrackSilenced(index)) this.renderTrack(offlineContext, masterGain, index, buffer)
+    })
+
+    const buffer = await offlineContext.startRendering()
+    return { buffer, blob: encodeWav(buffer) }
+  }
+
+  private decodeTrack(index: number): Promise<AudioBuffer | null> {
+    const track = this.tracks[index]
+    const url = this.audios[index]?.src
+    if (track.id === PLACEHOLDER_TRACK.id || !url || this.hasLoadError(index)) return Promise.resolve(null)
+
+    // The Web Audio engine already has the decoded buffer
+    const audio = this.audios[index]
+    const buffer = audio instanceof WebAudioPlayer ? audio.getBuffer() : null
+    if (buffer) return Promise.resolve(buffer)
+
+    let promise = this.decodedBuffers.get(url)
+    if (!promise) {
+      promise = fetch(url)
+        .then((response) => {
+          if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+          return response.arrayBuffer()
+        })
+        .then((arrayBuffer) => this.audioContext.decodeAudioData(arrayBuffer))
+        .catch((error) => {
+          // Try again on the next export
+          this.decodedBuffers.delete(url)
+          throw error
+        })
+      this.decodedBuffers.set(url, promise)
+    }
+    return promise
+  }
+
+  private renderTrack(context: BaseAudioContext, destination: AudioNode, index: number, buffer: AudioBuffer) {
+    const track = this.tracks[index]
+    const duration = this.durations[index] || buffer.duration
+    const { startCue = 0, endCue = duration } = track
+
+    // Skip the part of the track that lies before the session start
+    const offset = Math.max(startCue, -track.startPosition)
+    if (offset >= endCue) return
+    const when = track.startPosition + offset
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    const gainNode = context.createGain()
+    const panner = context.createStereoPanner()
+    panner.pan.value = clampPan(this.tracks[index].pan ?? 0)
+    // Throws if an effect can't be copied, the export would sound different otherwise
+    const effects = createEffects(context, track.effects || [], false)
+    source.connect(gainNode)
+    if (effects.length) {
+      gainNode.connect(effects[0])
+      effects[effects.length - 1].connect(panner)
+    } else {
+      gainNode.connect(panner)
+    }
+    panner.connect(destination)
+    source.start(when, offset, endCue - offset)
+
+    // Automate the gain with the envelope points, if any
+    const points = this.getEnvelopePoints(index)
+    if (points?.length) {
+      gainNode.gain.setValueAtTime(getEnvelopeVolume(points, offset, duration), when)
+      points.forEach((point) => {
+        if (point.time > offset) {
+          gainNode.gain.linearRampToValueAtTime(clampVolume(point.volume), track.startPosition + point.time)
+        }
+      })
+      gainNode.gain.linearRampToValueAtTime(0, track.startPosition + duration)
+    } else {
+      gainNode.gain.value = this.audios[index].volume
+    }
+  }
+
+  public getEnvelopePoints(trackIndex: number): EnvelopePoint[] | undefined {
+    return this.envelopes[trackIndex]?.getPoints() ?? this.hiddenEnvelopes.get(this.tracks[trackIndex]?.id)
+  }
+
+  public setEnvelopePoints(trackIndex: number, points: EnvelopePoint[]) {
+    const id = this.tracks[trackIndex]?.id
+    if (this.hiddenEnvelopes.has(id)) {
+      this.hiddenEnvelopes.set(id, points)
+      this.emit('envelope-points-change', { id, points })
+      return
+    }
+    this.envelopes[trackIndex]?.setPoints(points)
+  }
+}
+
+// The duration of a beat and of a bar in seconds
+function getGridIntervals(grid: MultitrackGrid): { beat: number; bar: number } {
+  if (grid.interval) return { beat: grid.interval, bar: grid.interval }
+  if (!grid.bpm) return { beat: 0, bar: 0 }
+  const [beatsPerBar, noteValue] = grid.timeSignature || [4, 4]
+  const beat = (60 / grid.bpm) * (4 / noteValue)
+  return { beat, bar: beat * beatsPerBar }
+}
+
+// Points that are created from the cues and fades of a track, rather than by the user
+function isGeneratedPoint(point: EnvelopePoint): boolean {
+  const id = point.id ?? ''
+  return id === 'startCue' || id === 'endCue' || id.startsWith('fadeIn') || id.startsWith('fadeOut')
+}
+
+// A point of the fade or the cue at one end of a track
+function isFadePoint(point: EnvelopePoint, side: 'in' | 'out'): boolean {
+  const prefix = side === 'in' ? 'fadeIn' : 'fadeOut'
+  const cueId = side === 'in' ? 'startCue' : 'endCue'
+  return point.id === cueId || !!point.id?.startsWith(prefix)
+}
+
+// Approximate an equal-power fade curve with envelope points
+function getCrossfadePoints(side: 'in' | 'out', time: number, length: number, volume: number): EnvelopePoint[] {
+  const prefix = side === 'in' ? 'fadeIn' : 'fadeOut'
+  return Array.from({ length: CROSSFADE_STEPS + 1 }, (_, i) => {
+    const x = i / CROSSFADE_STEPS
+    const gain = side === 'in' ? Math.sin((x * Math.PI) / 2) : Math.cos((x * Math.PI) / 2)
+    const id = i === 0 ? `${prefix}Start` : i === CROSSFADE_STEPS ? `${prefix}End` : `${prefix}-${i}`
+    return { id, time: time + x * length, volume: volume * gain }
+  })
+}
+
+// The envelope points of a track before it's edited: its own points and the ones of its cues and fades
+function getInitialEnvelopePoints(track: TrackOptions): EnvelopePoint[] {
+  const points = Array.isArray(track.envelope) ? [...track.envelope] : []
+
+  if (track.fadeInEnd) {
+    if (track.startCue) {
+      points.push({ time: track.startCue || 0, volume: 0, id: 'startCue' })
+    }
+    points.push({ time: track.fadeInEnd || 0, volume: track.volume ?? 1, id: 'fadeInEnd' })
   }
 
-  /** Set time in seconds */
-  public setTime(time: number) {
-    const wasPlaying = this.isPlaying()
-    this.updatePosition(time)
-    if (wasPlaying) this.play()
+  if (track.fadeOutStart) {
+    points.push({ time: track.fadeOutStart, volume: track.volume ?? 1, id: 'fadeOutStart' })
+    if (track.endCue) {
+      points.push({ time: track.endCue, volume: 0, id: 'endCue' })
+    }
   }
 
-  public zoom(pxPerSec: number) {
-    this.options.minPxPerSec = pxPerSec
-    this.wavesurfers.forEach((ws, index) => this.tracks[index].url && ws.zoom(pxPerSec))
-    this.rendering.setMainWidth(this.durations, this.maxDuration)
-    this.rendering.setContainerOffsets()
-  }
+  return points.sort((a, b) => a.time - b.time)
+}
 
-  public addTrack(track: TrackOptions) {
-    const index = this.tracks.findIndex((t) => t.id === track.id)
-    if (index !== -1) {
-      this.tracks[index] = track
+// Move the cue points along with the cues, and keep the fades within them
+function moveCuePoints(points: EnvelopePoint[], startCue: number, endCue: number): EnvelopePoint[] {
+  return points.map((point) => {
+    if (point.id === 'startCue') return { ...point, time: startCue }
+    if (point.id === 'endCue') return { ...point, time: endCue }
+    if (point.id === 'fadeInEnd' || point.id === 'fadeOutStart') {
+      return { ...point, time: Math.min(endCue, Math.max(startCue, point.time)) }
+    }
+    return point
+  })
+}
 
-      this.initAudio(track).then((audio) => {
-        this.audios[index] = audio
-        //ORIGINAL CODE: this.durations[index] = audio.duration
-        this.durations[index] = typeof track.options?.duration === 'number' ? track.options.duration : audio.duration
-        this.initDurations(this.durations)
+// Replace a fade with the points of an equal-power crossfade, or remove it, and update the track's fade
+function applyCrossfade(
+  track: TrackOptions,
+  points: EnvelopePoint[],
+  side: 'in' | 'out',
+  time: number,
+  length: number,
+): EnvelopePoint[] {
+  const fadePoints = length > 0 ? getCrossfadePoints(side, time, length, track.volume ?? 1) : []
+
+  if (side === 'in') {
+    track.fadeInEnd = length > 0 ? time + length : undefined
+  } else {
+    track.fadeOutStart = length > 0 ? time : undefined
+  }
 
-        const container = this.rendering.containers[index]
-        container.innerHTML = ''
+  return points
+    .filter((point) => !isFadePoint(point, side))
+    .concat(fadePoints)
+    .sort((a, b) => a.time - b.time)
+}
 
-        this.wavesurfers[index].destroy()
-        this.wavesurfers[index] = this.initWavesurfer(track, index)
+// The played part of a track's audio
+function getTrackCues(track: TrackOptions, duration: number): [number, number] {
+  const { startCue = 0, endCue = duration } = track
+  return [startCue, Math.min(endCue, duration || endCue)]
+}
 
-        const unsubscribe = initDragging(
-          container,
-          (delta: number) => this.onDrag(index, delta),
-          this.options.rightButtonDrag,
-        )
-        this.wavesurfers[index].once('destroy', unsubscribe)
+function getAudioDuration(audio: HTMLAudioElement | WebAudioPlayer): number {
+  return audio.src && Number.isFinite(audio.duration) ? audio.duration : 0
+}
 
-        this.emit('canplay')
-      })
-    }
+// The fraction of a file that has been loaded, or null if it's unknown
+function getLoadProgress(audio: HTMLAudioElement | WebAudioPlayer): number | null {
+  if (audio instanceof WebAudioPlayer) return audio.loadProgress
+  const { buffered, duration } = audio
+  if (!buffered.length || !Number.isFinite(duration) || !duration) return null
+  return Math.min(1, buffered.end(buffered.length - 1) / duration)
+}
+
+// A link dragged from a page or from the address bar
+function getDroppedUrl(data: DataTransfer): string | null {
+  const uriList = data.getData('text/uri-list')
+  const uri = uriList.split(/\r?\n/).find((line) => line && !line.startsWith('#'))
+  if (uri) return uri.trim()
+
+  const text = data.getData('text/plain').trim()
+  try {
+    return new URL(text).href
+  } catch {
+    return null
   }
+}
 
-  public destroy() {
-    if (this.frameRequest) cancelAnimationFrame(this.frameRequest)
+function getLaneId(track: SessionTrack): TrackId {
+  return track.lane ?? track.id
+}
 
-    this.rendering.destroy()
+// Store each clip of a lane as a separate track that shares the lane settings
+function expandClips(track: TrackOptions): SessionTrack[] {
+  if (!track.clips?.length) return [track]
+  const { id, clips, title, options, draggable, volume, pan, muted, solo, effects } = track
+  return clips.map((clip) => ({ title, options, draggable, volume, pan, muted, solo, effects, ...clip, lane: id }))
+}
 
-    this.audios.forEach((audio) => {
-      audio.pause()
-      audio.src = ''
-    })
+// The part of a clip within a session time range, or null if too little of it is left
+function trimClip(clip: ClipOptions, start: number, end: number): ClipOptions | null {
+  const { startPosition, startCue = 0, endCue = 0 } = clip
+  const newStartCue = Math.max(startCue, start - startPosition)
+  const newEndCue = Math.min(endCue, end - startPosition)
+  if (newEndCue - newStartCue < MIN_CLIP_LENGTH) return null
 
-    this.wavesurfers.forEach((ws) => {
-      ws.destroy()
-    })
+  return {
+    ...clip,
+    startCue: newStartCue,
+    endCue: newEndCue,
+    // The fades only stay where the clip wasn't cut
+    fadeInEnd: newStartCue === startCue ? clip.fadeInEnd : undefined,
+    fadeOutStart: newEndCue === endCue ? clip.fadeOutStart : undefined,
+    markers: clip.markers?.filter(({ time }) => time >= newStartCue && time <= newEndCue),
   }
+}
 
-  // See https://developer.mozilla.org/en-US/docs/Web/API/HTMLMediaElement/setSinkId
-  public setSinkId(sinkId: string): Promise<void[]> {
-    return Promise.all(this.wavesurfers.map((ws) => ws.setSinkId(sinkId)))
-  }
+// A clip with a new id, its markers get new ids too
+function copyClip(clip: ClipOptions, id: TrackId): ClipOptions {
+  return { ...clip, id, markers: clip.markers?.map(({ time, label, color }) => ({ time, label, color })) }
+}
 
-  public setTrackVolume(index: number, volume: number) {
-    ;(this.envelopes[index] || this.wavesurfers[index])?.setVolume(volume)
-  }
+// Cut the range between two times out of the clips of a lane, and shift what comes after it
+function rippleClips(
+  clips: ClipOptions[],
+  start: number,
+  end: number,
+  shift: number,
+  getNewId: (baseId: TrackId) => TrackId,
+): ClipOptions[] {
+  return clips.flatMap((clip) => {
+    const before = trimClip(clip, -Infinity, start)
+    const after = trimClip(clip, end, Infinity)
+    if (!after) return before ? [before] : []
+
+    const shifted = { ...after, startPosition: after.startPosition + shift }
+    if (!before) return [shifted]
+    // A clip across the range is split in two, only clips with a URL can be loaded again
+    return clip.url ? [before, copyClip(shifted, getNewId(clip.id))] : [before]
+  })
+}
 
-  public setTrackStartPosition(index: number, value: number) {
-    const track = this.tracks[index]
-    if (!track.draggable) return
+let markerCount = 0
 
-    const newStartPosition = value
-    const minStart = this.options.dragBounds ? 0 : -this.durations[index] - 1
-    const maxStart = this.maxDuration - this.durations[index]
+// Give a marker without an id a unique one, so that it can be updated and removed
+function withMarkerId(marker: MarkerOptions): MarkerOptions & { id: string } {
+  return { ...marker, id: marker.id ?? `marker-${++markerCount}` }
+}
 
-    if (newStartPosition >= minStart && newStartPosition <= maxStart) {
-      track.startPosition = newStartPosition
-      this.initDurations(this.durations)
-      this.rendering.setContainerOffsets()
-      this.updatePosition(this.currentTime)
-      this.emit('start-position-change', { id: track.id, startPosition: newStartPosition })
-    }
-  }
+function getTrackMarkers(track: SessionTrack): MultitrackMarker[] {
+  return (track.markers || []).flatMap(({ id, ...marker }) =>
+    id === undefined ? [] : [{ ...marker, id, trackId: track.id }],
+  )
+}
 
-  public getEnvelopePoints(trackIndex: number): EnvelopePoint[] | undefined {
-    return this.envelopes[trackIndex]?.getPoints()
+function normalizeTrack(track: SessionTrack): SessionTrack {
+  return {
+    ...track,
+    markers: track.markers?.map(withMarkerId),
+    startPosition: track.startPosition || 0,
+    peaks: track.peaks || (track.url || track.options?.media ? undefined : [new Float32Array()]),
   }
+}
 
-  public setEnvelopePoints(trackIndex: number, points: EnvelopePoint[]) {
-    this.envelopes[trackIndex]?.setPoints(points)
-  }
+function normalizeTracks(tracks: MultitrackTracks): SessionTrack[] {
+  return tracks
+    .flatMap(expandClips)
+    .concat({ ...PLACEHOLDER_TRACK })
+    .map(normalizeTrack)
+}
+
+// A copy of an object without some of its keys
+function omit<T extends object, K extends keyof T>(object: T, keys: K[]): Omit<T, K> {
+  const copy = { ...object }
+  keys.forEach((key) => delete copy[key])
+  return copy
 }
 
-function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
+function moveItem<T>(array: T[], fromIndex: number, toIndex: number) {
+  array.splice(toIndex, 0, ...array.splice(fromIndex, 1))
+}
+
+function reorderItems<T>(array: T[], order: number[]) {
+  array.splice(0, array.length, ...order.map((index) => array[index]))
+}
+
+function arePointsEqual(a: EnvelopePoint[], b: EnvelopePoint[]) {
+  return (
+    a.length === b.length &&
+    a.every((point, i) => point.id === b[i].id && point.time === b[i].time && point.volume === b[i].volume)
+  )
+}
+
+function clampPan(pan: number) {
+  return Math.min(1, Math.max(-1, pan))
+}
+
+function clampVolume(volume: number) {
+  return Math.min(1, Math.max(0, volume))
+}
+
+// Interpolate the envelope volume at a given time, like EnvelopePlugin does during playback
+function getEnvelopeVolume(points: EnvelopePoint[], time: number, duration: number) {
+  const next = points.find((point) => point.time > time) || { time: duration, volume: 0 }
+  const prev = points.filter((point) => point.time <= time).pop() || { time: 0, volume: 0 }
+  const span = next.time - prev.time
+  const volume = span > 0 ? prev.volume + ((time - prev.time) * (next.volume - prev.volume)) / span : prev.volume
+  return clampVolume(volume)
+}
+
+function initRendering(tracks: SessionTrack[], options: MultitrackOptions) {
   let pxPerSec = 0
   let durations: number[] = []
   let mainWidth = 0
@@ -646,7 +2985,86 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
   const wrapper = document.createElement('div')
   wrapper.style.position = 'relative'
   scroll.appendChild(wrapper)
-  options.container.appendChild(scroll)
+
+  // A fixed height scrolls the tracks vertically
+  if (options.height) {
+    scroll.style.height = `${options.height}px`
+    scroll.style.overflowY = 'auto'
+  }
+
+  const createColumn = (part: string, width: number) => {
+    const column = document.createElement('div')
+    column.setAttribute('part', part)
+    column.setAttribute('style', 'position: relative; flex-shrink: 0; overflow: hidden;')
+    column.style.width = `${width}px`
+    return column
+  }
+
+  // Put the track headers and the level meters in columns beside the tracks, so they don't scroll
+  const headerColumn = options.headerWidth ? createColumn('headers', options.headerWidth) : null
+  const meterColumn = options.meter?.show ? createColumn('meters', options.meter.width ?? 8) : null
+  let layout: HTMLElement | null = null
+  if (headerColumn || meterColumn) {
+    layout = document.createElement('div')
+    layout.setAttribute('style', 'display: flex; width: 100%;')
+    scroll.style.flex = '1'
+    scroll.style.minWidth = '0'
+    layout.append(...[headerColumn, scroll, meterColumn].filter((el): el is HTMLDivElement => el !== null))
+    options.container.appendChild(layout)
+  } else {
+    options.container.appendChild(scroll)
+  }
+  const meters: Map<TrackId, HTMLElement> = new Map()
+
+  // Create an overview of the whole session, with the visible part as a draggable viewport
+  let overview: { element: HTMLElement; canvas: HTMLCanvasElement; viewport: HTMLElement } | null = null
+  if (options.overview) {
+    const viewportColor = options.overview.viewportColor || 'rgba(255, 255, 255, 0.5)'
+    const element = document.createElement('div')
+    element.setAttribute('part', 'overview')
+    element.setAttribute('style', 'position: relative; width: 100%; user-select: none;')
+    element.style.height = `${options.overview.height ?? 40}px`
+
+    const canvas = document.createElement('canvas')
+    canvas.setAttribute('style', 'display: block; width: 100%; height: 100%;')
+
+    const viewport = document.createElement('div')
+    viewport.setAttribute('part', 'overview-viewport')
+    viewport.setAttribute('style', 'position: absolute; top: 0; height: 100%; box-sizing: border-box; cursor: grab;')
+    viewport.style.border = `1px solid ${viewportColor}`
+
+    element.append(canvas, viewport)
+    options.container.insertBefore(element, layout || scroll)
+    overview = { element, canvas, viewport }
+
+    makeDraggable(viewport, (dx) => {
+      scroll.scrollLeft += (dx / element.clientWidth) * mainWidth
+    })
+
+    // Click outside of the viewport to center it there
+    element.addEventListener('click', (e) => {
+      if (e.target === viewport) return
+      const x = e.clientX - element.getBoundingClientRect().left
+      scroll.scrollLeft = (x / element.clientWidth) * mainWidth - scroll.clientWidth / 2
+    })
+  }
+
+  // Create a readout of the current time
+  let timeReadout: HTMLElement | null = null
+  if (options.timeReadout) {
+    timeReadout = document.createElement('div')
+    timeReadout.setAttribute('part', 'time-readout')
+    timeReadout.setAttribute('style', 'font-variant-numeric: tabular-nums; white-space: nowrap;')
+    options.container.insertBefore(timeReadout, layout || scroll)
+  }
+
+  const renderViewport = () => {
+    if (!overview || !mainWidth) return
+    overview.viewport.style.left = `${(scroll.scrollLeft / mainWidth) * 100}%`
+    overview.viewport.style.width = `${Math.min(1, scroll.clientWidth / mainWidth) * 100}%`
+  }
+
+  scroll.addEventListener('scroll', renderViewport)
 
   // Create a common cursor
   const cursor = document.createElement('div')
@@ -656,19 +3074,152 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
   wrapper.appendChild(cursor)
   const { clientWidth } = wrapper
 
-  // Create containers for each track
-  const containers = tracks.map((track, index) => {
+  // Create a loop range overlay
+  const loop = document.createElement('div')
+  loop.setAttribute('style', 'height: 100%; position: absolute; z-index: 9; top: 0; pointer-events: none;')
+  loop.style.display = 'none'
+  loop.style.backgroundColor = options.loopColor || 'rgba(255, 255, 255, 0.1)'
+  wrapper.appendChild(loop)
+
+  const setLoop = (start: number | null, end = 0) => {
+    if (start === null) {
+      loop.style.display = 'none'
+      return
+    }
+    loop.style.display = ''
+    loop.style.left = `${start * 100}%`
+    loop.style.width = `${(end - start) * 100}%`
+  }
+
+  // Create bar and beat lines
+  const gridLines = document.createElement('div')
+  gridLines.setAttribute(
+    'style',
+    'height: 100%; width: 100%; position: absolute; z-index: 1; top: 0; left: 0; pointer-events: none;',
+  )
+  wrapper.appendChild(gridLines)
+
+  const renderGrid = () => {
+    const { beat, bar } = options.grid ? getGridIntervals(options.grid) : { beat: 0, bar: 0 }
+    if (!beat || !pxPerSec) {
+      gridLines.style.backgroundImage = ''
+      return
+    }
+    const barColor = options.grid?.barColor || 'rgba(255, 255, 255, 0.3)'
+    const beatColor = options.grid?.beatColor || 'rgba(255, 255, 255, 0.1)'
+    gridLines.style.backgroundImage = [
+      `repeating-linear-gradient(to right, ${barColor} 0 1px, transparent 1px ${bar * pxPerSec}px)`,
+      `repeating-linear-gradient(to right, ${beatColor} 0 1px, transparent 1px ${beat * pxPerSec}px)`,
+    ].join(', ')
+  }
+
+  // Create session markers, with a label on the timeline and a line across the tracks
+  const markers: Map<string, HTMLElement> = new Map()
+  let markerHandlers: { onMove: (id: string, position: number) => void; onClick: (id: string) => void } | null = null
+
+  const createMarker = (id: string) => {
+    const marker = document.createElement('div')
+    marker.setAttribute('part', 'marker')
+    marker.setAttribute(
+      'style',
+      'position: absolute; z-index: 11; top: 0; width: 0; height: 100%; pointer-events: none;',
+    )
+
+    const label = document.createElement('div')
+    label.setAttribute('part', 'marker-label')
+    label.setAttribute(
+      'style',
+      'position: absolute; left: 0; padding: 0 4px; font-size: 11px; white-space: nowrap; cursor: grab; pointer-events: auto;',
+    )
+    marker.appendChild(label)
+
+    // Move the marker while dragging, and report its new position when dropped
+    let position = 0
+    makeDraggable(
+      label,
+      (dx) => {
+        position = Math.min(1, Math.max(0, position + dx / wrapper.offsetWidth))
+        marker.style.left = `${position * 100}%`
+      },
+      () => {
+        position = parseFloat(marker.style.left) / 100 || 0
+      },
+      () => markerHandlers?.onMove(id, position),
+      1,
+    )
+    label.addEventListener('click', () => markerHandlers?.onClick(id))
+
+    wrapper.appendChild(marker)
+    return marker
+  }
+
+  // Put the labels on the timeline, wherever it is inserted
+  const positionMarkers = () => {
+    const timeline = wrapper.querySelector<HTMLElement>('[part="timeline-wrapper"]')
+    markers.forEach((marker) => {
+      const label = marker.firstElementChild as HTMLElement
+      label.style.top = `${timeline?.offsetTop ?? 0}px`
+    })
+  }
+
+  // Track rows are inserted before this marker
+  const rowsEnd = document.createComment('')
+  wrapper.appendChild(rowsEnd)
+
+  let onDrop: ((laneId: TrackId | null, position: number, data: DataTransfer | null) => void) | null = null
+
+  // The drop position relative to the whole timeline
+  const getDropPosition = (e: DragEvent) => {
+    const rect = wrapper.getBoundingClientRect()
+    return Math.max(0, (e.clientX - rect.left) / wrapper.offsetWidth)
+  }
+
+  let onCrossfadeDrag: ((index: number, delta: number) => void) | null = null
+  let onCrossfadeDragStart: ((index: number) => void) | null = null
+  let onCrossfadeDragEnd: ((index: number) => void) | null = null
+
+  // Create a crossfade overlay with a handle to drag its length
+  const createCrossfade = (container: HTMLDivElement) => {
+    const color = options.crossfadeColor || 'rgba(255, 255, 255, 0.5)'
+    const crossfade = document.createElement('div')
+    crossfade.setAttribute('part', 'crossfade')
+    crossfade.setAttribute('style', 'position: absolute; z-index: 5; top: 0; height: 100%; pointer-events: none;')
+    crossfade.style.backgroundImage = [
+      `linear-gradient(to top right, transparent calc(50% - 1px), ${color} 50%, transparent calc(50% + 1px))`,
+      `linear-gradient(to bottom right, transparent calc(50% - 1px), ${color} 50%, transparent calc(50% + 1px))`,
+    ].join(', ')
+
+    const handle = document.createElement('div')
+    handle.setAttribute('part', 'crossfade-handle')
+    handle.setAttribute(
+      'style',
+      `position: absolute; right: 0; top: 0; width: 6px; height: 100%; cursor: ew-resize; pointer-events: auto; background: ${color};`,
+    )
+    crossfade.appendChild(handle)
+
+    makeDraggable(
+      handle,
+      (dx) => onCrossfadeDrag?.(containers.indexOf(container), dx / wrapper.offsetWidth),
+      () => onCrossfadeDragStart?.(containers.indexOf(container)),
+      () => onCrossfadeDragEnd?.(containers.indexOf(container)),
+      1,
+    )
+
+    container.appendChild(crossfade)
+    return crossfade
+  }
+
+  // Create a container for a track
+  const createContainer = (track: SessionTrack) => {
     const container = document.createElement('div')
     container.style.position = 'relative'
 
     if (track.id === PLACEHOLDER_TRACK.id) {
       container.style.display = 'none'
-    }
-
-    if (options.trackBorderColor && index > 0) {
-      const borderDiv = document.createElement('div')
-      borderDiv.setAttribute('style', `width: 100%; height: 2px; background-color: ${options.trackBorderColor}`)
-      wrapper.appendChild(borderDiv)
+    } else if (options.height) {
+      // Keep the height of the lane while it has no waveform
+      const { height } = track.options || {}
+      container.style.minHeight = `${typeof height === 'number' ? height : DEFAULT_TRACK_HEIGHT}px`
     }
 
     if (options.trackBackground && (track.url || track.options?.media)) {
@@ -692,15 +3243,250 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
       })
       dropArea.addEventListener('drop', (e) => {
         e.preventDefault()
+        e.stopPropagation()
         dropArea.style.background = ''
+        onDrop?.(track.id, getDropPosition(e), e.dataTransfer)
       })
       container.appendChild(dropArea)
     }
 
-    wrapper.appendChild(container)
-
     return container
+  }
+
+  const createBorder = () => {
+    if (!options.trackBorderColor) return null
+    const borderDiv = document.createElement('div')
+    borderDiv.setAttribute('style', `width: 100%; height: 2px; background-color: ${options.trackBorderColor}`)
+    return borderDiv
+  }
+
+  let headerHandlers: {
+    onMute: (laneId: TrackId, muted: boolean) => void
+    onSolo: (laneId: TrackId, solo: boolean) => void
+    onVolume: (laneId: TrackId, volume: number) => void
+    onReorder: (laneId: TrackId, index: number) => void
+  } | null = null
+
+  const headers: Map<TrackId, LaneHeader> = new Map()
+
+  const setPressed = (button: HTMLButtonElement, isPressed: boolean) => {
+    button.setAttribute('aria-pressed', String(isPressed))
+    button.style.opacity = isPressed ? '1' : '0.5'
+  }
+
+  // The lanes in their display order
+  const getLaneIds = () => {
+    const laneIds = tracks.map(getLaneId).filter((id) => id !== PLACEHOLDER_TRACK.id)
+    return laneIds.filter((id, index) => laneIds.indexOf(id) === index)
+  }
+
+  // Create a header with the title and controls of a lane
+  const createHeader = (laneId: TrackId, track: SessionTrack): LaneHeader => {
+    const element = document.createElement('div')
+    element.setAttribute('part', 'track-header')
+    element.setAttribute(
+      'style',
+      'position: absolute; left: 0; width: 100%; box-sizing: border-box; display: flex; flex-wrap: wrap; align-items: center; gap: 4px; padding: 4px; overflow: hidden;',
+    )
+    element.style.background = options.trackBackground || ''
+
+    const handle = document.createElement('div')
+    handle.setAttribute('part', 'track-header-handle')
+    handle.setAttribute('style', 'cursor: grab; touch-action: none;')
+    handle.textContent = '⠿'
+
+    const title = document.createElement('div')
+    title.setAttribute('part', 'track-header-title')
+    title.setAttribute('style', 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;')
+    title.textContent = track.title ?? String(laneId)
+
+    const mute = document.createElement('button')
+    mute.setAttribute('part', 'track-header-mute')
+    mute.textContent = 'M'
+    mute.title = 'Mute'
+    setPressed(mute, !!track.muted)
+    mute.addEventListener('click', () => headerHandlers?.onMute(laneId, mute.getAttribute('aria-pressed') !== 'true'))
+
+    const solo = document.createElement('button')
+    solo.setAttribute('part', 'track-header-solo')
+    solo.textContent = 'S'
+    solo.title = 'Solo'
+    setPressed(solo, !!track.solo)
+    solo.addEventListener('click', () => headerHandlers?.onSolo(laneId, solo.getAttribute('aria-pressed') !== 'true'))
+
+    const volume = document.createElement('input')
+    volume.setAttribute('part', 'track-header-volume')
+    volume.type = 'range'
+    volume.min = '0'
+    volume.max = '1'
+    volume.step = '0.01'
+    volume.value = String(track.volume ?? 1)
+    volume.style.width = '100%'
+    volume.addEventListener('input', () => headerHandlers?.onVolume(laneId, Number(volume.value)))
+
+    // Drag the handle up or down to reorder the lanes
+    let offset = 0
+    makeDraggable(
+      handle,
+      (_dx, dy) => {
+        offset += dy
+        element.style.transform = `translateY(${offset}px)`
+      },
+      () => {
+        offset = 0
+        element.style.zIndex = '1'
+        handle.style.cursor = 'grabbing'
+      },
+      () => {
+        const center = element.offsetTop + scroll.scrollTop + offset + element.offsetHeight / 2
+        const newIndex = getLaneIds().filter((id) => {
+          const laneRow = rows.get(id)
+          return id !== laneId && laneRow && laneRow.row.offsetTop + laneRow.row.offsetHeight / 2 < center
+        }).length
+        element.style.transform = ''
+        element.style.zIndex = ''
+        handle.style.cursor = 'grab'
+        headerHandlers?.onReorder(laneId, newIndex)
+      },
+      1,
+    )
+
+    element.append(handle, title, mute, solo, volume)
+    headerColumn?.appendChild(element)
+    return { element, mute, solo, volume }
+  }
+
+  // Align the headers with their rows
+  const positionHeaders = () => {
+    headers.forEach(({ element }, laneId) => {
+      const laneRow = rows.get(laneId)
+      if (!laneRow) return
+      element.style.top = `${laneRow.row.offsetTop - scroll.scrollTop}px`
+      element.style.height = `${laneRow.row.offsetHeight}px`
+    })
+  }
+
+  // Notify once per frame that lanes may have been scrolled into or out of view
+  let onVisibilityChange: (() => void) | null = null
+  let visibilityFrame: number | null = null
+  const checkVisibility = () => {
+    if (!options.height || visibilityFrame !== null) return
+    visibilityFrame = requestAnimationFrame(() => {
+      visibilityFrame = null
+      onVisibilityChange?.()
+    })
+  }
+
+  if (options.height) {
+    scroll.addEventListener('scroll', () => {
+      positionHeaders()
+      checkVisibility()
+    })
+  }
+
+  // Rows change their height when the waveforms are rendered
+  const resizeObserver = new ResizeObserver(() => {
+    positionHeaders()
+    positionMarkers()
+    checkVisibility()
   })
+  resizeObserver.observe(wrapper)
+
+  const containers = tracks.map(createContainer)
+
+  // Each lane is a row, the clips of a lane share the same row
+  const rows: Map<TrackId, { row: HTMLElement; border: HTMLElement | null }> = new Map()
+
+  // Place the track containers in their rows, and the rows in order separated by borders
+  const layoutRows = () => {
+    const usedRows = new Set<TrackId>()
+
+    containers.forEach((container, index) => {
+      const key = getLaneId(tracks[index])
+      let laneRow = rows.get(key)
+      if (!laneRow) {
+        const row = document.createElement('div')
+        row.style.position = 'relative'
+        laneRow = { row, border: createBorder() }
+        rows.set(key, laneRow)
+        if (headerColumn && key !== PLACEHOLDER_TRACK.id) {
+          headers.set(key, createHeader(key, tracks[index]))
+        }
+      }
+
+      const isFirstClip = !usedRows.has(key)
+      if (isFirstClip) {
+        const { row, border } = laneRow
+        if (border) {
+          border.style.display = usedRows.size > 0 ? '' : 'none'
+          wrapper.insertBefore(border, rowsEnd)
+        }
+        wrapper.insertBefore(row, rowsEnd)
+        usedRows.add(key)
+      }
+
+      // The first clip sets the height of the row, the others are laid over it
+      container.style.position = isFirstClip ? 'relative' : 'absolute'
+      container.style.top = '0'
+      container.style.left = '0'
+      laneRow.row.appendChild(container)
+    })
+
+    rows.forEach(({ row, border }, key) => {
+      if (usedRows.has(key)) return
+      row.remove()
+      border?.remove()
+      rows.delete(key)
+      meters.get(key)?.remove()
+      meters.delete(key)
+      headers.get(key)?.element.remove()
+      headers.delete(key)
+    })
+
+    positionHeaders()
+    checkVisibility()
+  }
+
+  layoutRows()
+
+  // Highlight the selected range in each selected lane
+  const selectionOverlays: HTMLElement[] = []
+  const setSelection = (range: [number, number] | null, laneIds: TrackId[] = []) => {
+    selectionOverlays.splice(0).forEach((overlay) => overlay.remove())
+    if (!range) return
+
+    laneIds.forEach((laneId) => {
+      const laneRow = rows.get(laneId)
+      if (!laneRow) return
+      const overlay = document.createElement('div')
+      overlay.setAttribute('part', 'selection')
+      overlay.setAttribute('style', 'position: absolute; z-index: 8; top: 0; height: 100%; pointer-events: none;')
+      overlay.style.left = `${range[0] * 100}%`
+      overlay.style.width = `${(range[1] - range[0]) * 100}%`
+      overlay.style.backgroundColor = options.selectionColor || 'rgba(100, 150, 255, 0.3)'
+      laneRow.row.appendChild(overlay)
+      selectionOverlays.push(overlay)
+    })
+  }
+
+  // The lanes whose rows are between two heights in the wrapper
+  const getLanesBetween = (top: number, bottom: number) => {
+    return Array.from(rows)
+      .filter(([id, { row }]) => {
+        return id !== PLACEHOLDER_TRACK.id && row.offsetTop <= bottom && row.offsetTop + row.offsetHeight >= top
+      })
+      .map(([id]) => id)
+  }
+
+  // Drop onto the empty space of a lane, or below the lanes
+  if (options.dropFiles) {
+    wrapper.addEventListener('dragover', (e) => e.preventDefault())
+    wrapper.addEventListener('drop', (e) => {
+      e.preventDefault()
+      const laneRow = Array.from(rows).find(([, { row }]) => row.contains(e.target as Node))
+      onDrop?.(laneRow ? laneRow[0] : null, getDropPosition(e), e.dataTransfer)
+    })
+  }
 
   // Set the positions of each container
   const setContainerOffsets = () => {
@@ -711,9 +3497,41 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
       }
       container.style.transform = `translateX(${offset}px)`
     })
+    renderOverview()
+  }
+
+  // Draw the played part of each track in its lane
+  const renderOverview = () => {
+    if (!overview || !mainWidth) return
+    const { canvas } = overview
+    const { clientWidth: width, clientHeight: height } = canvas
+    canvas.width = width * devicePixelRatio
+    canvas.height = height * devicePixelRatio
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.scale(devicePixelRatio, devicePixelRatio)
+
+    const laneIds = getLaneIds()
+    const laneHeight = height / Math.max(1, laneIds.length)
+    const totalDuration = mainWidth / pxPerSec
+
+    tracks.forEach((track, i) => {
+      const lane = laneIds.indexOf(getLaneId(track))
+      if (lane === -1 || !durations[i]) return
+      const [startCue, endCue] = getTrackCues(track, durations[i])
+      const x = ((track.startPosition + startCue) / totalDuration) * width
+      const clipWidth = ((endCue - startCue) / totalDuration) * width
+      const waveColor = typeof track.options?.waveColor === 'string' ? track.options.waveColor : ''
+      ctx.fillStyle = options.overview?.waveColor || waveColor || '#999'
+      ctx.fillRect(x, lane * laneHeight + 1, Math.max(1, clipWidth), Math.max(1, laneHeight - 2))
+    })
+
+    renderViewport()
   }
 
   return {
+    wrapper,
+
     containers,
 
     // Set the start offset
@@ -726,8 +3544,12 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
       mainWidth = pxPerSec * maxDuration
       wrapper.style.width = `${mainWidth}px`
       setContainerOffsets()
+      renderGrid()
     },
 
+    // Redraw the bar and beat lines
+    renderGrid,
+
     // Update cursor position
     updateCursor: (position: number, autoCenter: boolean) => {
       cursor.style.left = `${Math.min(100, position * 100)}%`
@@ -753,27 +3575,290 @@ function initRendering(tracks: MultitrackTracks, options: MultitrackOptions) {
       })
     },
 
+    // Show or hide the loop range
+    setLoop,
+
+    // Show the selected range in some lanes
+    setSelection,
+
+    // Shift+drag across the tracks to select a range in the lanes under the pointer
+    addSelectionDragHandler: (onSelect: (start: number, end: number, laneIds: TrackId[]) => void) => {
+      wrapper.addEventListener(
+        'pointerdown',
+        (e) => {
+          if (!e.shiftKey || e.button !== 0) return
+          // Don't drag the tracks or their handles
+          e.stopPropagation()
+          e.preventDefault()
+
+          const startRect = wrapper.getBoundingClientRect()
+          const startX = e.clientX - startRect.left
+          const startY = e.clientY - startRect.top
+          let selection: [number, number, TrackId[]] | null = null
+
+          const onPointerMove = (event: PointerEvent) => {
+            const rect = wrapper.getBoundingClientRect()
+            const x = event.clientX - rect.left
+            const y = event.clientY - rect.top
+            const width = wrapper.offsetWidth
+            const start = Math.max(0, Math.min(startX, x)) / width
+            const end = Math.min(width, Math.max(startX, x)) / width
+            selection = [start, end, getLanesBetween(Math.min(startY, y), Math.max(startY, y))]
+            setSelection([start, end], selection[2])
+          }
+
+          const onPointerUp = () => {
+            document.removeEventListener('pointermove', onPointerMove)
+            document.removeEventListener('pointerup', onPointerUp)
+            if (!selection) return
+            onSelect(...selection)
+
+            // The click that ends the selection doesn't seek
+            const stopClick = (event: Event) => event.stopPropagation()
+            wrapper.addEventListener('click', stopClick, { capture: true, once: true })
+            setTimeout(() => wrapper.removeEventListener('click', stopClick, { capture: true }))
+          }
+
+          document.addEventListener('pointermove', onPointerMove)
+          document.addEventListener('pointerup', onPointerUp)
+        },
+        { capture: true },
+      )
+    },
+
+    // Drag on the timeline to select a loop range
+    addLoopDragHandler: (onLoopDrag: (start: number, end: number) => void) => {
+      let isLoopDrag = false
+      let startX = 0
+      let range: [number, number] | null = null
+
+      makeDraggable(
+        wrapper,
+        (_dx, _dy, x) => {
+          if (!isLoopDrag) return
+          const width = wrapper.offsetWidth
+          range = [Math.max(0, Math.min(startX, x)) / width, Math.min(width, Math.max(startX, x)) / width]
+          setLoop(...range)
+        },
+        (x, y) => {
+          const timeline = wrapper.querySelector('[part="timeline-wrapper"]')
+          if (!timeline) return
+          const { top, bottom } = timeline.getBoundingClientRect()
+          const wrapperTop = wrapper.getBoundingClientRect().top
+          isLoopDrag = y >= top - wrapperTop && y <= bottom - wrapperTop
+          startX = x
+          range = null
+        },
+        () => {
+          if (isLoopDrag && range) onLoopDrag(...range)
+          isLoopDrag = false
+        },
+      )
+    },
+
+    // Show the formatted current time
+    setTimeReadout: (text: string) => {
+      if (timeReadout) timeReadout.textContent = text
+    },
+
+    // Show the session markers, positions are relative to the whole timeline
+    setMarkers: (newMarkers: Array<{ id: string; position: number; label?: string; color?: string }>) => {
+      markers.forEach((marker, id) => {
+        if (newMarkers.some((m) => m.id === id)) return
+        marker.remove()
+        markers.delete(id)
+      })
+
+      newMarkers.forEach(({ id, position, label, color = options.markerColor || '#f80' }) => {
+        let marker = markers.get(id)
+        if (!marker) {
+          marker = createMarker(id)
+          markers.set(id, marker)
+        }
+        marker.style.left = `${position * 100}%`
+        marker.style.borderLeft = `1px solid ${color}`
+        const labelElement = marker.firstElementChild as HTMLElement
+        labelElement.textContent = label || ''
+        labelElement.style.background = color
+        labelElement.style.minHeight = label ? '' : '8px'
+      })
+
+      positionMarkers()
+    },
+
+    // Drag session markers to move them, or click them
+    addMarkerHandlers: (handlers: NonNullable<typeof markerHandlers>) => {
+      markerHandlers = handlers
+    },
+
+    // Show the peak level of each lane beside its row
+    setMeterLevels: (levels: Array<{ id: TrackId; peak: number; clipping: boolean }>) => {
+      if (!meterColumn) return
+      const column = meterColumn
+      levels.forEach(({ id, peak, clipping }) => {
+        const laneRow = rows.get(id)
+        if (!laneRow) return
+        let meter = meters.get(id)
+        if (!meter) {
+          meter = document.createElement('div')
+          meter.setAttribute('part', 'meter')
+          meter.setAttribute('style', 'position: absolute; left: 0; width: 100%;')
+          column.appendChild(meter)
+          meters.set(id, meter)
+        }
+        const { offsetTop, offsetHeight } = laneRow.row
+        const db = peak > 0 ? 20 * Math.log10(peak) : -Infinity
+        const level = Math.min(1, Math.max(0, 1 - db / METER_MIN_DB))
+        meter.style.top = `${offsetTop - scroll.scrollTop + offsetHeight * (1 - level)}px`
+        meter.style.height = `${offsetHeight * level}px`
+        meter.style.background = clipping ? options.meter?.clipColor || '#d00' : options.meter?.color || '#0c0'
+      })
+    },
+
+    // Handle the controls of the track headers
+    addHeaderHandlers: (handlers: NonNullable<typeof headerHandlers>) => {
+      headerHandlers = handlers
+    },
+
+    // Update the controls of a lane header
+    setHeaderState: (laneId: TrackId, state: { muted?: boolean; solo?: boolean; volume?: number }) => {
+      const header = headers.get(laneId)
+      if (!header) return
+      if (state.muted !== undefined) setPressed(header.mute, state.muted)
+      if (state.solo !== undefined) setPressed(header.solo, state.solo)
+      if (state.volume !== undefined) header.volume.value = String(state.volume)
+    },
+
+    // Whether a lane is in or near the visible part of a scrolling session, all lanes are without a fixed height
+    isLaneVisible: (laneId: TrackId) => {
+      const laneRow = rows.get(laneId)
+      if (!options.height || !laneRow) return true
+      const { offsetTop, offsetHeight } = laneRow.row
+      const top = scroll.scrollTop - VIRTUAL_MARGIN
+      const bottom = scroll.scrollTop + scroll.clientHeight + VIRTUAL_MARGIN
+      return offsetTop <= bottom && offsetTop + offsetHeight >= top
+    },
+
+    // Do something when lanes may have been scrolled into or out of view
+    addVisibilityHandler: (onChange: NonNullable<typeof onVisibilityChange>) => {
+      onVisibilityChange = onChange
+    },
+
     // Destroy the container
     destroy: () => {
-      scroll.remove()
+      resizeObserver.disconnect()
+      if (visibilityFrame !== null) cancelAnimationFrame(visibilityFrame)
+      ;(layout || scroll).remove()
+      overview?.element.remove()
+      timeReadout?.remove()
     },
 
     // Do something on drop
-    addDropHandler: (onDrop: (trackId: TrackId) => void) => {
-      tracks.forEach((track, index) => {
-        if (!(track.url || track.options?.media)) {
-          const droppable = containers[index].querySelector('div')
-          droppable?.addEventListener('drop', (e) => {
-            e.preventDefault()
-            onDrop(track.id)
-          })
-        }
-      })
+    addDropHandler: (onDropHandler: NonNullable<typeof onDrop>) => {
+      onDrop = onDropHandler
+    },
+
+    // Insert a container for a new track, the track must already be in the tracks array
+    addTrack: (track: SessionTrack, index: number) => {
+      containers.splice(index, 0, createContainer(track))
+      layoutRows()
+      setContainerOffsets()
+    },
+
+    // Remove the container of a track
+    removeTrack: (index: number) => {
+      containers.splice(index, 1)[0].remove()
+      layoutRows()
+    },
+
+    // Hide the trimmed parts of a track, start and end are relative to the track duration
+    setTrim: (index: number, start: number, end: number) => {
+      const container = containers[index]
+      container.style.clipPath = start > 0 || end < 1 ? `inset(0 ${(1 - end) * 100}% 0 ${start * 100}%)` : ''
+      const startHandle = container.querySelector<HTMLElement>('[part="trim-handle-start"]')
+      const endHandle = container.querySelector<HTMLElement>('[part="trim-handle-end"]')
+      if (startHandle) startHandle.style.left = `${start * 100}%`
+      if (endHandle) endHandle.style.left = `calc(${end * 100}% - 6px)`
+      renderOverview()
+    },
+
+    // Ctrl+wheel or pinch to zoom, keeping the time under the pointer in place
+    addWheelZoomHandler: (onZoom: (pxPerSec: number) => void) => {
+      scroll.addEventListener(
+        'wheel',
+        (e) => {
+          // Trackpad pinch gestures are wheel events with the Ctrl key
+          if (!e.ctrlKey || !mainWidth) return
+          e.preventDefault()
+          const pointerX = e.clientX - scroll.getBoundingClientRect().left
+          const position = (scroll.scrollLeft + pointerX) / mainWidth
+          onZoom(pxPerSec * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED))
+          scroll.scrollLeft = position * mainWidth - pointerX
+        },
+        { passive: false },
+      )
+    },
+
+    // Show or hide a crossfade over the start of a track, relative to the track duration
+    setCrossfade: (index: number, range: [number, number] | null) => {
+      const container = containers[index]
+      const crossfade = container.querySelector<HTMLElement>('[part="crossfade"]')
+      if (!range) {
+        crossfade?.remove()
+        return
+      }
+      const element = crossfade || createCrossfade(container)
+      element.style.left = `${range[0] * 100}%`
+      element.style.width = `${(range[1] - range[0]) * 100}%`
+    },
+
+    // Drag a crossfade handle to change the crossfade length
+    addCrossfadeDragHandler: (
+      onDrag: NonNullable<typeof onCrossfadeDrag>,
+      onDragStart: NonNullable<typeof onCrossfadeDragStart>,
+      onDragEnd: NonNullable<typeof onCrossfadeDragEnd>,
+    ) => {
+      onCrossfadeDrag = onDrag
+      onCrossfadeDragStart = onDragStart
+      onCrossfadeDragEnd = onDragEnd
+    },
+
+    // Show an error message over a track
+    setTrackError: (index: number, message: string | null) => {
+      const container = containers[index]
+      let errorDiv = container.querySelector<HTMLElement>('[part="track-error"]')
+      if (!message) {
+        errorDiv?.remove()
+        return
+      }
+      if (!errorDiv) {
+        errorDiv = document.createElement('div')
+        errorDiv.setAttribute('part', 'track-error')
+        errorDiv.setAttribute(
+          'style',
+          'position: absolute; z-index: 3; inset: 0; display: flex; align-items: center; padding: 0 10px; color: #d00; pointer-events: none;',
+        )
+        container.appendChild(errorDiv)
+      }
+      errorDiv.textContent = message
+    },
+
+    // Reorder the containers, the tracks array must already be reordered
+    reorder: (order: number[]) => {
+      const reordered = order.map((index) => containers[index])
+      containers.splice(0, containers.length, ...reordered)
+      layoutRows()
     },
   }
 }
 
-function initDragging(container: HTMLElement, onDrag: (delta: number) => void, rightButtonDrag = false) {
+function initDragging(
+  container: HTMLElement,
+  onDrag: (delta: number) => void,
+  rightButtonDrag = false,
+  onDragStart?: () => void,
+  onDragEnd?: () => void,
+) {
   let overallWidth = 0
 
   const unsubscribe = makeDraggable(
@@ -784,9 +3869,11 @@ function initDragging(container: HTMLElement, onDrag: (delta: number) => void, r
     () => {
       container.style.cursor = 'grabbing'
       overallWidth = container.parentElement?.offsetWidth ?? 0
+      onDragStart?.()
     },
     () => {
       container.style.cursor = 'grab'
+      onDragEnd?.()
     },
     5,
     rightButtonDrag ? 2 : 0,
@@ -809,4 +3896,43 @@ function initDragging(container: HTMLElement, onDrag: (delta: number) => void, r
   }
 }
 
+// Handles on both edges of a track to trim its start and end
+function initTrimming(
+  container: HTMLElement,
+  onTrim: (side: 'start' | 'end', delta: number) => void,
+  onTrimStart: (side: 'start' | 'end') => void,
+  onTrimEnd: () => void,
+) {
+  const unsubscribes = (['start', 'end'] as const).map((side) => {
+    const handle = document.createElement('div')
+    handle.setAttribute('part', `trim-handle-${side}`)
+    handle.setAttribute(
+      'style',
+      'position: absolute; z-index: 4; top: 0; height: 100%; width: 6px; cursor: ew-resize; touch-action: none;',
+    )
+    handle.style[side === 'start' ? 'borderLeft' : 'borderRight'] = '2px solid rgba(255, 255, 255, 0.5)'
+    container.appendChild(handle)
+
+    let overallWidth = 0
+
+    const unsubscribe = makeDraggable(
+      handle,
+      (dx: number) => onTrim(side, dx / overallWidth),
+      () => {
+        overallWidth = container.parentElement?.offsetWidth ?? 0
+        onTrimStart(side)
+      },
+      onTrimEnd,
+      1,
+    )
+
+    return () => {
+      unsubscribe()
+      handle.remove()
+    }
+  })
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+}
+
 export default MultiTrack
@@ -0,0 +1,137 @@
+/**
+ * Multi-resolution peaks, generated in a Web Worker.
+ * Decoding needs an audio context, which workers don't have, so only the peaks are computed off the main thread.
+ */
+
+/** Peaks of a track at several resolutions, can be saved, e.g. as JSON, and passed back as `peaksBundle` */
+export type TrackPeaks = {
+  duration: number
+  sampleRate: number
+  /** From the finest to the coarsest resolution */
+  levels: Array<{
+    samplesPerPeak: number
+    data: Array<Float32Array | number[]>
+  }>
+}
+
+const RESOLUTIONS = [256, 1024, 4096, 16384]
+
+// Must not reference anything outside of itself, it's also the source of the worker
+function computePeaks(channels: Float32Array[], resolutions: number[]) {
+  return resolutions.map((samplesPerPeak) => ({
+    samplesPerPeak,
+    data: channels.map((channel) => {
+      const peaks = new Float32Array(Math.ceil(channel.length / samplesPerPeak))
+      for (let i = 0; i < peaks.length; i++) {
+        // Keep the sign of the loudest sample, like WaveSurfer does
+        let max = 0
+        const end = Math.min(channel.length, (i + 1) * samplesPerPeak)
+        for (let j = i * samplesPerPeak; j < end; j++) {
+          if (Math.abs(channel[j]) > Math.abs(max)) max = channel[j]
+        }
+        peaks[i] = max
+      }
+      return peaks
+    }),
+  }))
+}
+
+type Levels = TrackPeaks['levels']
+type PeaksRequest = { id: number; channel: Float32Array; resolutions: number[] }
+type PeaksResponse = { id: number; levels: Levels }
+
+let worker: Worker | null = null
+let isWorkerUnavailable = false
+let requestId = 0
+const pending: Map<number, { resolve: (levels: Levels) => void; reject: (error: Error) => void }> = new Map()
+
+function getWorker(): Worker | null {
+  if (worker || isWorkerUnavailable) return worker
+  try {
+    const source = `const computePeaks = ${computePeaks.toString()}
+onmessage = (e) => {
+  const { id, channel, resolutions } = e.data
+  const levels = computePeaks([channel], resolutions)
+  postMessage({ id, levels }, levels.flatMap((level) => level.data.map((peaks) => peaks.buffer)))
+}`
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }))
+    worker = new Worker(url)
+    URL.revokeObjectURL(url)
+    worker.onmessage = (e: MessageEvent<PeaksResponse>) => {
+      pending.get(e.data.id)?.resolve(e.data.levels)
+      pending.delete(e.data.id)
+    }
+    // A worker blocked by a Content Security Policy can also fail after it's created
+    worker.onerror = () => {
+      worker?.terminate()
+      worker = null
+      isWorkerUnavailable = true
+      pending.forEach(({ reject }) => reject(new Error('The peaks worker failed')))
+      pending.clear()
+    }
+  } catch {
+    // Workers can be blocked by a Content Security Policy
+    worker = null
+    isWorkerUnavailable = true
+  }
+  return worker
+}
+
+// Compute the peaks of one channel in the worker, a copy of it is transferred there
+function requestChannelPeaks(channel: Float32Array): Promise<Levels> {
+  const peaksWorker = getWorker()
+  if (!peaksWorker) return Promise.reject(new Error('The peaks worker is unavailable'))
+
+  return new Promise((resolve, reject) => {
+    const id = ++requestId
+    pending.set(id, { resolve, reject })
+    const copy = channel.slice()
+    const request: PeaksRequest = { id, channel: copy, resolutions: RESOLUTIONS }
+    peaksWorker.postMessage(request, [copy.buffer])
+  })
+}
+
+// One channel at a time, so that there is at most one copy of a channel in memory
+async function computePeaksInWorker(channels: Float32Array[]): Promise<Levels> {
+  const channelLevels: Levels[] = []
+  for (const channel of channels) {
+    channelLevels.push(await requestChannelPeaks(channel))
+  }
+  return RESOLUTIONS.map((samplesPerPeak, i) => ({
+    samplesPerPeak,
+    data: channelLevels.flatMap((levels) => levels[i].data),
+  }))
+}
+
+/** Generate the peaks of a decoded buffer, on the main thread if the worker is unavailable */
+async function generatePeaks(buffer: AudioBuffer): Promise<TrackPeaks> {
+  const { duration, sampleRate } = buffer
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i))
+  const levels = await computePeaksInWorker(channels).catch(() => computePeaks(channels, RESOLUTIONS))
+  return { duration, sampleRate, levels }
+}
+
+/** Peaks saved as JSON have their Float32Arrays turned into objects with index keys, read them as arrays again */
+export function parsePeaks(peaks: TrackPeaks): TrackPeaks {
+  return {
+    ...peaks,
+    levels: peaks.levels.map((level) => ({
+      ...level,
+      data: level.data.map((channel) =>
+        channel instanceof Float32Array || Array.isArray(channel)
+          ? channel
+          : Float32Array.from(Object.values(channel as Record<string, number>)),
+      ),
+    })),
+  }
+}
+
+/** The coarsest peaks that still have at least one peak per pixel at a zoom level */
+export function getPeaksForZoom(peaks: TrackPeaks, pxPerSec: number): Array<Float32Array | number[]> {
+  const maxSamplesPerPeak = pxPerSec > 0 ? peaks.sampleRate / pxPerSec : Infinity
+  const levels = peaks.levels.filter((level) => level.samplesPerPeak <= maxSamplesPerPeak)
+  const level = levels[levels.length - 1] || peaks.levels[0]
+  return level.data
+}
+
+export default generatePeaks
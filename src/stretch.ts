@@ -0,0 +1,139 @@
+/**
+ * Pitch-preserving time-stretching with waveform-similarity overlap-add (WSOLA), in a Web Worker.
+ * Short frames and a small search window are enough for speech at common rates.
+ */
+
+// Must not reference anything outside of itself, it's also the source of the worker
+function stretchChannels(inputs: Float32Array[], sampleRate: number, rate: number): Float32Array[] {
+  const FRAME_DURATION = 0.04
+  const SEARCH_DURATION = 0.01
+  // The similarity search skips samples, it only needs to find roughly the same phase
+  const SEARCH_STEP = 4
+
+  // Find the segment around `nominal` that best continues the waveform at `natural`
+  const findBestStart = (
+    samples: Float32Array,
+    natural: number,
+    nominal: number,
+    tolerance: number,
+    overlap: number,
+  ) => {
+    let best = nominal
+    let bestScore = -Infinity
+
+    for (let start = nominal - tolerance; start <= nominal + tolerance; start += SEARCH_STEP) {
+      if (start < 0 || start + overlap > samples.length) continue
+      let score = 0
+      for (let i = 0; i < overlap && natural + i < samples.length; i += SEARCH_STEP) {
+        score += samples[natural + i] * samples[start + i]
+      }
+      if (score > bestScore) {
+        bestScore = score
+        best = start
+      }
+    }
+
+    return best
+  }
+
+  const frameLength = Math.round(FRAME_DURATION * sampleRate)
+  const synthesisHop = Math.floor(frameLength / 2)
+  const analysisHop = synthesisHop * rate
+  const tolerance = Math.round(SEARCH_DURATION * sampleRate)
+  const length = Math.max(1, Math.ceil(inputs[0].length / rate))
+
+  const outputs = inputs.map(() => new Float32Array(length))
+  // Hann windows at half a frame apart sum to 1
+  const hann = Float32Array.from(
+    { length: frameLength },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength),
+  )
+
+  let previous = 0
+  for (let frame = 0; frame * synthesisHop < length; frame++) {
+    const nominal = Math.round(frame * analysisHop)
+    // All channels follow the first one, so that they stay in phase with each other
+    const start = frame === 0 ? 0 : findBestStart(inputs[0], previous + synthesisHop, nominal, tolerance, synthesisHop)
+    const outStart = frame * synthesisHop
+
+    inputs.forEach((input, c) => {
+      const out = outputs[c]
+      for (let i = 0; i < frameLength && outStart + i < length; i++) {
+        const position = start + i
+        if (position < 0 || position >= input.length) continue
+        // Nothing overlaps the first half of the first frame
+        out[outStart + i] += input[position] * (frame === 0 && i < synthesisHop ? 1 : hann[i])
+      }
+    })
+
+    previous = start
+  }
+
+  return outputs
+}
+
+type StretchRequest = { id: number; channels: Float32Array[]; sampleRate: number; rate: number }
+type StretchResponse = { id: number; channels: Float32Array[] }
+
+let worker: Worker | null = null
+let isWorkerUnavailable = false
+let requestId = 0
+const pending: Map<number, { resolve: (channels: Float32Array[]) => void; reject: (error: Error) => void }> = new Map()
+
+function getWorker(): Worker | null {
+  if (worker || isWorkerUnavailable) return worker
+  try {
+    const source = `const stretchChannels = ${stretchChannels.toString()}
+onmessage = (e) => {
+  const { id, channels, sampleRate, rate } = e.data
+  const outputs = stretchChannels(channels, sampleRate, rate)
+  postMessage({ id, channels: outputs }, outputs.map((channel) => channel.buffer))
+}`
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }))
+    worker = new Worker(url)
+    URL.revokeObjectURL(url)
+    worker.onmessage = (e: MessageEvent<StretchResponse>) => {
+      pending.get(e.data.id)?.resolve(e.data.channels)
+      pending.delete(e.data.id)
+    }
+    worker.onerror = () => {
+      worker?.terminate()
+      worker = null
+      isWorkerUnavailable = true
+      pending.forEach(({ reject }) => reject(new Error('The stretch worker failed')))
+      pending.clear()
+    }
+  } catch {
+    // Workers can be blocked by a Content Security Policy
+    worker = null
+    isWorkerUnavailable = true
+  }
+  return worker
+}
+
+/**
+ * Stretch a buffer so that playing it at a rate of 1 sounds like the original played at `rate`.
+ * Rejects if workers are unavailable, stretching a whole buffer would block the main thread.
+ */
+function stretchBuffer(context: BaseAudioContext, buffer: AudioBuffer, rate: number): Promise<AudioBuffer> {
+  const stretchWorker = getWorker()
+  if (!stretchWorker) return Promise.reject(new Error('The stretch worker is unavailable'))
+
+  return new Promise<Float32Array[]>((resolve, reject) => {
+    const id = ++requestId
+    pending.set(id, { resolve, reject })
+    // Copy the channels, so that the buffer stays playable after they are transferred
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice())
+    const request: StretchRequest = { id, channels, sampleRate: buffer.sampleRate, rate }
+    stretchWorker.postMessage(
+      request,
+      channels.map((channel) => channel.buffer),
+    )
+  }).then((channels) => {
+    const output = context.createBuffer(channels.length, channels[0].length, buffer.sampleRate)
+    channels.forEach((channel, i) => output.copyToChannel(channel, i))
+    return output
+  })
+}
+
+export default stretchBuffer
@@ -0,0 +1,68 @@
+/**
+ * Time formats for the timeline labels and the time readout.
+ */
+
+/**
+ * - `seconds`: 83.5
+ * - `hms`: 00:01:23.500
+ * - `smpte`: 00:01:23:15, hours, minutes, seconds and frames
+ * - `bbt`: 42:2:480, bars, beats and ticks from the tempo of the grid
+ */
+export type TimeFormat = 'seconds' | 'hms' | 'smpte' | 'bbt'
+
+export type TimeFormatOptions = {
+  /** Frames per second of SMPTE timecode, defaults to 30 */
+  frameRate?: number
+  /** The length of a beat and of a bar in seconds, for bars:beats:ticks */
+  beat?: number
+  bar?: number
+}
+
+const TICKS_PER_BEAT = 960
+const DEFAULT_FRAME_RATE = 30
+// 120 BPM in 4/4
+const DEFAULT_BEAT = 0.5
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+function formatTime(time: number, format: TimeFormat, options: TimeFormatOptions = {}): string {
+  const sign = time < 0 ? '-' : ''
+  const absTime = Math.abs(time)
+
+  switch (format) {
+    case 'seconds':
+      return `${sign}${Math.round(absTime * 1000) / 1000}`
+
+    case 'hms': {
+      const milliseconds = Math.round(absTime * 1000)
+      const hours = Math.floor(milliseconds / 3600000)
+      const minutes = Math.floor(milliseconds / 60000) % 60
+      const seconds = Math.floor(milliseconds / 1000) % 60
+      return `${sign}${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds % 1000, 3)}`
+    }
+
+    case 'smpte': {
+      // Non-integer rates like 29.97 are counted in whole frames of the nearest integer rate
+      const frameRate = options.frameRate || DEFAULT_FRAME_RATE
+      const framesPerSecond = Math.round(frameRate)
+      const totalFrames = Math.floor(absTime * frameRate + 1e-6)
+      const totalSeconds = Math.floor(totalFrames / framesPerSecond)
+      const hours = Math.floor(totalSeconds / 3600)
+      const minutes = Math.floor(totalSeconds / 60) % 60
+      return `${sign}${pad(hours)}:${pad(minutes)}:${pad(totalSeconds % 60)}:${pad(totalFrames % framesPerSecond)}`
+    }
+
+    case 'bbt': {
+      const beat = options.beat || DEFAULT_BEAT
+      const bar = options.bar || beat * 4
+      // Avoid showing 1:4:959 for a time that is meant to be on a bar line
+      const barTime = absTime + 1e-6
+      const bars = Math.floor(barTime / bar)
+      const beats = Math.floor((barTime - bars * bar) / beat)
+      const ticks = Math.floor(((barTime - bars * bar - beats * beat) / beat) * TICKS_PER_BEAT)
+      return `${sign}${bars + 1}:${beats + 1}:${pad(ticks, 3)}`
+    }
+  }
+}
+
+export default formatTime
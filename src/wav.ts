@@ -0,0 +1,49 @@
+/**
+ * Encode an AudioBuffer as a 16-bit PCM WAV file.
+ */
+function encodeWav(buffer: AudioBuffer): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer
+  const bytesPerSample = 2
+  const blockAlign = numberOfChannels * bytesPerSample
+  const dataSize = length * blockAlign
+  const view = new DataView(new ArrayBuffer(44 + dataSize))
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i))
+    }
+  }
+
+  // RIFF header
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+
+  // Format chunk
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, numberOfChannels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bytesPerSample * 8, true)
+
+  // Data chunk with interleaved samples
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i))
+  let offset = 44
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numberOfChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]))
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' })
+}
+
+export default encodeWav
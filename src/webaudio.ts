@@ -1,26 +1,46 @@
+import stretchBuffer from './stretch.js'
+
 /**
  * Web Audio buffer player emulating the behavior of an HTML5 Audio element.
  */
 class WebAudioPlayer {
   private audioContext: AudioContext
   private gainNode: GainNode
+  private destination: AudioNode
   private bufferNode: AudioBufferSourceNode | null = null
   private listeners: Map<string, Set<() => void>> = new Map()
   private autoplay = false
   private playStartTime = 0
   private playedDuration = 0
+  private scheduledEnd: number | null = null
   private _src = ''
   private _duration = 0
   private _muted = false
   private buffer: AudioBuffer | null = null
+  private _loadProgress = 0
+  private _playbackRate = 1
+  private _preservesPitch = false
+  // Only the buffer of the current rate is kept, it's null while it's being stretched
+  private stretched: { rate: number; buffer: AudioBuffer | null } | null = null
   public paused = true
   public crossOrigin: string | null = null
+  public error: Error | null = null
 
   constructor(audioContext = new AudioContext()) {
     this.audioContext = audioContext
 
+    this.destination = this.audioContext.destination
     this.gainNode = this.audioContext.createGain()
-    this.gainNode.connect(this.audioContext.destination)
+    this.gainNode.connect(this.destination)
+  }
+
+  /** Route the output into another audio node instead of the context destination */
+  connect(destination: AudioNode) {
+    if (!this._muted) {
+      this.gainNode.disconnect()
+      this.gainNode.connect(destination)
+    }
+    this.destination = destination
   }
 
   addEventListener(event: string, listener: () => void, options?: { once?: boolean }) {
@@ -54,6 +74,9 @@ class WebAudioPlayer {
 
   set src(value: string) {
     this._src = value
+    this.error = null
+    this._loadProgress = 0
+    this.stretched = null
 
     if (!value) {
       this.buffer = null
@@ -62,8 +85,7 @@ class WebAudioPlayer {
       return
     }
 
-    fetch(value)
-      .then((response) => response.arrayBuffer())
+    this.fetchArrayBuffer(value)
       .then((arrayBuffer) => {
         if (this.src !== value) return null
         return this.audioContext.decodeAudioData(arrayBuffer)
@@ -81,6 +103,56 @@ class WebAudioPlayer {
           this.play()
         }
       })
+      .catch((error) => {
+        if (this.src !== value) return
+        this.error = error instanceof Error ? error : new Error(String(error))
+        this.emitEvent('error')
+      })
+  }
+
+  /** The fraction of the file that has been downloaded, from 0 to 1 */
+  get loadProgress() {
+    return this._loadProgress
+  }
+
+  // Download a file, emitting progress events when its size is known
+  private async fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || 0
+    if (!response.body || !total) {
+      const arrayBuffer = await response.arrayBuffer()
+      this._loadProgress = 1
+      return arrayBuffer
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let loaded = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      loaded += value.length
+      if (this.src !== url) break
+      this._loadProgress = Math.min(1, loaded / total)
+      this.emitEvent('progress')
+    }
+
+    const data = new Uint8Array(loaded)
+    let offset = 0
+    chunks.forEach((chunk) => {
+      data.set(chunk, offset)
+      offset += chunk.length
+    })
+    return data.buffer
+  }
+
+  getBuffer(): AudioBuffer | null {
+    return this.buffer
   }
 
   getChannelData() {
@@ -88,30 +160,100 @@ class WebAudioPlayer {
     return channelData ? [channelData] : undefined
   }
 
+  // With the pitch preserved, the buffer is stretched in advance and played at a rate of 1
+  private getStretchedBuffer(): AudioBuffer | null {
+    if (!this._preservesPitch || this._playbackRate === 1 || !this.buffer) return null
+    if (this.stretched?.rate !== this._playbackRate) this.stretch(this.buffer, this._playbackRate)
+    return this.stretched?.buffer ?? null
+  }
+
+  // Stretch the buffer in the background, until then it plays at the new rate with a changed pitch
+  private stretch(buffer: AudioBuffer, rate: number) {
+    const stretched = { rate, buffer: null as AudioBuffer | null }
+    this.stretched = stretched
+
+    stretchBuffer(this.audioContext, buffer, rate)
+      .then((stretchedBuffer) => {
+        if (this.stretched !== stretched) return
+        stretched.buffer = stretchedBuffer
+        // Swap to the stretched buffer at the current position
+        if (!this.paused && this.bufferNode) {
+          this.playedDuration = this.currentTime
+          this.playStartTime = Math.max(this.playStartTime, this.audioContext.currentTime)
+          this.restartBufferNode()
+        }
+      })
+      .catch(() => {
+        // Without a worker, the pitch isn't preserved
+      })
+  }
+
+  // Start a buffer source at the current rate, offset and duration are in the original buffer's time
+  private startBufferNode(when: number, offset: number, duration?: number): AudioBufferSourceNode {
+    const bufferNode = this.audioContext.createBufferSource()
+    const stretched = this.getStretchedBuffer()
+    const scale = stretched ? 1 / this._playbackRate : 1
+
+    bufferNode.buffer = stretched || this.buffer
+    bufferNode.playbackRate.value = stretched ? 1 : this._playbackRate
+    bufferNode.connect(this.gainNode)
+    bufferNode.start(when, offset * scale, duration !== undefined ? duration * scale : undefined)
+    return bufferNode
+  }
+
   async play() {
     if (!this.paused) return
     this.paused = false
+    this.scheduledEnd = null
 
     this.bufferNode?.disconnect()
-    this.bufferNode = this.audioContext.createBufferSource()
-    this.bufferNode.buffer = this.buffer
-    this.bufferNode.connect(this.gainNode)
 
     const offset = this.playedDuration > 0 ? this.playedDuration : 0
     const start =
-      this.playedDuration > 0 ? this.audioContext.currentTime : this.audioContext.currentTime - this.playedDuration
+      this.playedDuration > 0
+        ? this.audioContext.currentTime
+        : this.audioContext.currentTime - this.playedDuration / this._playbackRate
 
-    this.bufferNode.start(start, offset)
+    this.bufferNode = this.startBufferNode(start, offset)
     this.playStartTime = this.audioContext.currentTime
     this.emitEvent('play')
   }
 
+  /**
+   * Start playing at an exact audio context time, from a given offset and for an optional duration.
+   * Used to play several buffers in sync against the same clock.
+   */
+  schedule(when: number, offset: number, duration?: number) {
+    // Hand over from the buffer that is still playing exactly at the new start time
+    if (!this.paused) this.bufferNode?.stop(when)
+    this.paused = false
+    this.scheduledEnd = duration !== undefined ? offset + duration : null
+
+    this.bufferNode = this.startBufferNode(when, offset, duration)
+    this.pauseOnEnded(this.bufferNode)
+
+    this.playedDuration = offset
+    this.playStartTime = when
+    this.emitEvent('play')
+  }
+
+  // Like a media element, a scheduled buffer pauses at its end
+  private pauseOnEnded(bufferNode: AudioBufferSourceNode) {
+    bufferNode.onended = () => {
+      if (this.bufferNode !== bufferNode || this.paused) return
+      this.playedDuration = this.currentTime
+      this.paused = true
+      this.emitEvent('pause')
+      this.emitEvent('ended')
+    }
+  }
+
   pause() {
     if (this.paused) return
+    this.playedDuration = this.currentTime
     this.paused = true
 
     this.bufferNode?.stop()
-    this.playedDuration += this.audioContext.currentTime - this.playStartTime
     this.emitEvent('pause')
   }
 
@@ -121,16 +263,61 @@ class WebAudioPlayer {
   }
 
   get playbackRate() {
-    return this.bufferNode?.playbackRate.value ?? 1
+    return this._playbackRate
   }
   set playbackRate(value) {
-    if (this.bufferNode) {
-      this.bufferNode.playbackRate.value = value
+    if (this._playbackRate === value) return
+    this.setPlaybackRate(value, this._preservesPitch)
+  }
+
+  /** Keep the pitch when the rate changes, like `HTMLMediaElement.preservesPitch` */
+  get preservesPitch() {
+    return this._preservesPitch
+  }
+  set preservesPitch(value: boolean) {
+    if (this._preservesPitch === value) return
+    this.setPlaybackRate(this._playbackRate, value)
+  }
+
+  private setPlaybackRate(rate: number, preservesPitch: boolean) {
+    const wasStretched = this.getStretchedBuffer() !== null
+
+    // Continue the elapsed time from the current position at the new rate
+    if (!this.paused) {
+      this.playedDuration = this.currentTime
+      this.playStartTime = Math.max(this.playStartTime, this.audioContext.currentTime)
+    }
+    const rateChanged = this._playbackRate !== rate
+    this._playbackRate = rate
+    this._preservesPitch = preservesPitch
+    if (!preservesPitch || this.stretched?.rate !== rate) this.stretched = null
+
+    if (!this.paused && this.bufferNode) {
+      if (!wasStretched && !this.getStretchedBuffer()) {
+        this.bufferNode.playbackRate.value = rate
+      } else {
+        // A stretched buffer can't change its rate, so the source is swapped at the current position
+        this.restartBufferNode()
+      }
     }
+
+    if (rateChanged) this.emitEvent('ratechange')
+  }
+
+  private restartBufferNode() {
+    const isScheduled = Boolean(this.bufferNode?.onended)
+    this.bufferNode?.stop()
+    this.bufferNode?.disconnect()
+
+    const duration = this.scheduledEnd !== null ? Math.max(0, this.scheduledEnd - this.playedDuration) : undefined
+    this.bufferNode = this.startBufferNode(this.playStartTime, this.playedDuration, duration)
+    if (isScheduled) this.pauseOnEnded(this.bufferNode)
   }
 
   get currentTime() {
-    return this.paused ? this.playedDuration : this.playedDuration + this.audioContext.currentTime - this.playStartTime
+    if (this.paused) return this.playedDuration
+    // A scheduled buffer stays at its offset until its start time is reached
+    return this.playedDuration + Math.max(0, this.audioContext.currentTime - this.playStartTime) * this._playbackRate
   }
   set currentTime(value) {
     this.emitEvent('seeking')
@@ -171,7 +358,7 @@ class WebAudioPlayer {
     if (this._muted) {
       this.gainNode.disconnect()
     } else {
-      this.gainNode.connect(this.audioContext.destination)
+      this.gainNode.connect(this.destination)
     }
   }
 }